@@ -0,0 +1,25 @@
+import { resolveApiUrl } from "@/lib/apiUrl";
+import { serveCalendarFeed } from "@/lib/calendarFeed";
+import {
+  createFixtureDataSource,
+  createHttpDataSource,
+} from "@/lib/dataSource";
+
+/**
+ * Cloudflare Pages Function for the subscribable calendar at
+ * `/calendar.ics`. Pages exposes the project's environment variables here
+ * too, so the feed reads the same GMP endpoint as the app.
+ */
+export const onRequestGet = ({
+  request,
+  env,
+}: {
+  request: Request;
+  env: { VITE_DATA_SOURCE?: string; VITE_GMP_API_URL?: string };
+}) => {
+  const url = resolveApiUrl(env);
+  return serveCalendarFeed(
+    request,
+    url === null ? createFixtureDataSource(0) : createHttpDataSource(url)
+  );
+};
@@ -7,187 +7,480 @@ import {
   Suspense,
   useRef,
 } from "react";
-import { Card, CardContent } from "@/components/ui/card";
-import { decodeHTML, parseDate, sortData } from "./lib/utils";
+import { sortData, toggleSortKey } from "./lib/utils";
+import { normalizeGmpData } from "./lib/normalize";
+import { readCachedSnapshot, writeCachedSnapshot } from "./lib/cache";
+import {
+  gmpTrend,
+  readHistory,
+  recordSnapshot,
+  writeHistory,
+} from "./lib/history";
+import { diffSnapshots } from "./lib/diff";
+import { fetchWithRetry } from "./lib/retry";
+import { DataSourceError, toDataSourceError } from "./lib/errors";
+import { registerServiceWorker } from "./lib/serviceWorker";
+import {
+  hasOpenIpo,
+  readRefreshInterval,
+  writeRefreshInterval,
+} from "./lib/scheduler";
+import { useRefreshScheduler } from "./hooks/useRefreshScheduler";
+import { useUrlState } from "./hooks/useUrlState";
+import { useRoute } from "./hooks/useRoute";
+import { useAlerts } from "./hooks/useAlerts";
+import { matchesFilters } from "./lib/filters";
+import { LIFECYCLE_PHASES, isTakingBids, lifecyclePhase } from "./lib/phase";
+import { matchesQuery, parseQuery } from "./lib/query";
+import { readWatchlist, toggleWatched, writeWatchlist } from "./lib/watchlist";
+import {
+  allTags,
+  readAnnotations,
+  setAnnotation,
+  writeAnnotations,
+} from "./lib/annotations";
+import { downloadFile, toCsv } from "./lib/export";
+import { calendarFeedUrl, toIcs } from "./lib/ics";
+import { toIstIsoDate } from "./lib/dates";
 
 import { useMediaQuery } from "react-responsive";
-import { GmpDataItem, SortBy, SortOrder, StatsData } from "./types";
+import {
+  Annotations,
+  CachedSnapshot,
+  ChangeLogEntry,
+  DashboardViewProps,
+  DataSource,
+  DataStatus,
+  GmpHistory,
+  GmpTrend,
+  Ipo,
+  IpoAnnotation,
+  IpoFilters,
+  IpoListViewProps,
+  LifecyclePhase,
+  RefreshSchedule,
+  SortBy,
+  SortKey,
+  StatsData,
+  UpdateViewStateOptions,
+  ViewMode,
+} from "./types";
 
 import Loader from "./components/common/Loader";
+import OfflineBanner from "./components/common/OfflineBanner";
+import ErrorAlert from "./components/common/ErrorAlert";
+import UpdatePrompt from "./components/common/UpdatePrompt";
 
 const MobileTable = lazy(() => import("./components/mobile"));
 const DeskTopTable = lazy(() => import("./components/desktop"));
+const IpoDetail = lazy(() => import("./components/detail"));
+const Planner = lazy(() => import("./components/planner"));
+const CalendarView = lazy(() => import("./components/calendar"));
+const TimelineView = lazy(() => import("./components/timeline"));
+const AlertsDrawer = lazy(() => import("./components/common/AlertsDrawer"));
 
-export default function App() {
-  const [gmpData, setGmpData] = useState<GmpDataItem[]>([]);
+// How many refreshes the change-log panel keeps
+const MAX_CHANGE_LOG = 20;
+// How long rows that just changed stay highlighted
+const HIGHLIGHT_MS = 8000;
+
+export default function App({ dataSource }: { dataSource: DataSource }) {
+  const [gmpData, setGmpData] = useState<Ipo[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [sortBy, setSortBy] = useState<SortBy>(SortBy.OPEN);
-  const [sortOrder, setSortOrder] = useState<SortOrder.ASC | SortOrder.DESC>(
-    SortOrder.DESC
-  );
-  const [searchTerm, setSearchTerm] = useState("");
+  const [error, setError] = useState<DataSourceError | null>(null);
+  const route = useRoute();
+  const [viewState, updateViewState, dashboardPath] = useUrlState();
+  const {
+    search: searchTerm,
+    sort,
+    filters,
+    watchlistOnly,
+    selected,
+  } = viewState;
+  const [watchlist, setWatchlist] = useState<Set<string>>(readWatchlist);
+  const [annotations, setAnnotations] = useState<Annotations>(readAnnotations);
+  const knownTags = useMemo(() => allTags(annotations), [annotations]);
   const [refreshing, setRefreshing] = useState(false);
-  const cache = useRef<{
-    data: GmpDataItem[];
-    timestamp: number;
-  } | null>(null);
+  const [dataStatus, setDataStatus] = useState<DataStatus>({
+    fetchedAt: null,
+    source: dataSource.name,
+    fromCache: false,
+    offline: false,
+    issues: [],
+  });
+
+  const alerts = useAlerts(watchlist);
+  const { evaluate: checkAlerts } = alerts;
+  const [alertsOpen, setAlertsOpen] = useState(false);
+
+  const [history, setHistory] = useState<GmpHistory>(readHistory);
+  const [changeLog, setChangeLog] = useState<ChangeLogEntry[]>([]);
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(
+    () => new Set()
+  );
+  const currentIpos = useRef<Ipo[] | null>(null);
+  const highlightTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+  const [applyUpdate, setApplyUpdate] = useState<VoidFunction | null>(null);
 
+  const inFlight = useRef<AbortController | null>(null);
+  const [lastAttemptAt, setLastAttemptAt] = useState<number | null>(null);
+  const [refreshInterval, setRefreshInterval] =
+    useState<number>(readRefreshInterval);
+
+  const currentSnapshot = useRef<CachedSnapshot | null>(null);
   const isInitialFetch = useRef(true);
   const isMobile = useMediaQuery({ query: "(max-width: 768px)" });
-  const cacheDuration = 7200000; // 120 minutes in milliseconds
+  const view = viewState.view ?? (isMobile ? ViewMode.CARDS : ViewMode.TABLE);
 
-  const fetchApiData = async () => {
-    try {
-      const response = await fetch(
-        "https://gmp-extractor.khatriutsav63.workers.dev/"
+  const applySnapshot = useCallback(
+    (snapshot: CachedSnapshot, fromCache: boolean) => {
+      const { ipos, issues } = normalizeGmpData(
+        snapshot.data,
+        new Date(snapshot.fetchedAt)
       );
-      if (!response.ok) {
-        throw new Error(`Failed to fetch data. Status: ${response.status}`);
-      }
-      return await response.json();
-    } catch (err) {
-      setError(
-        err instanceof Error ? err.message : "An unknown error occurred"
-      );
-      return null;
-    }
-  };
+      setGmpData(ipos);
+      currentSnapshot.current = snapshot;
 
-  const fetchData = useCallback(
-    async (forceRefresh = false) => {
-      if (
-        cache.current &&
-        Date.now() - cache.current.timestamp < cacheDuration &&
-        !forceRefresh
-      ) {
-        setGmpData(cache.current.data);
-        setLoading(false);
-        setRefreshing(false);
-        return;
-      }
-      setRefreshing(true);
-      const response = await fetchApiData();
-      if (response) {
-        cache.current = { data: response.data, timestamp: Date.now() };
-        setGmpData(response.data);
-        setError(null);
+      const previous = currentIpos.current;
+      currentIpos.current = ipos;
+      const events =
+        previous && !fromCache ? diffSnapshots(previous, ipos) : [];
+      if (events.length) {
+        setChangeLog((log) =>
+          [{ at: snapshot.fetchedAt, events }, ...log].slice(0, MAX_CHANGE_LOG)
+        );
+        setHighlightedIds(new Set(events.map(({ id }) => id)));
+        clearTimeout(highlightTimeout.current);
+        highlightTimeout.current = setTimeout(
+          () => setHighlightedIds(new Set()),
+          HIGHLIGHT_MS
+        );
       }
 
-      setLoading(false);
-      setRefreshing(false);
+      if (!fromCache) {
+        checkAlerts(previous, ipos);
+        setHistory((previous) => {
+          const next = recordSnapshot(previous, ipos, snapshot.fetchedAt);
+          writeHistory(next);
+          return next;
+        });
+      }
+      setDataStatus({
+        fetchedAt: snapshot.fetchedAt,
+        source: snapshot.source,
+        fromCache,
+        offline: false,
+        // Nameless rows are dropped and unreadable fields shown as "-";
+        // the controls show the count so neither goes unnoticed
+        issues,
+      });
     },
-    [cacheDuration]
+    [checkAlerts]
   );
 
+  const fetchData = useCallback(async () => {
+    // A manual refresh supersedes whatever request is still running
+    inFlight.current?.abort();
+    const controller = new AbortController();
+    inFlight.current = controller;
+
+    setRefreshing(true);
+    try {
+      const previous = currentSnapshot.current;
+      const response = await fetchWithRetry(dataSource, {
+        signal: controller.signal,
+        validators: previous?.validators,
+      });
+      const fetchedAt = Date.now();
+      const snapshot: CachedSnapshot =
+        response.status === "ok"
+          ? {
+              data: response.data,
+              fetchedAt,
+              source: dataSource.name,
+              validators: response.validators,
+            }
+          : // 304: validators are only sent when there is a previous snapshot
+            { ...(previous as CachedSnapshot), fetchedAt };
+      writeCachedSnapshot(snapshot);
+      applySnapshot(snapshot, false);
+      setError(null);
+    } catch (err) {
+      // Superseded by a newer request, which now owns the loading state
+      if (controller.signal.aborted) return;
+      const fetchError = toDataSourceError(err);
+      setError(fetchError);
+      if (fetchError.kind === "network" || fetchError.kind === "timeout") {
+        // Keep whatever is on screen and flag it as the last known copy
+        setDataStatus((status) => ({ ...status, offline: true }));
+      }
+    } finally {
+      if (inFlight.current === controller) {
+        inFlight.current = null;
+        setLoading(false);
+        setRefreshing(false);
+        setLastAttemptAt(Date.now());
+      }
+    }
+  }, [dataSource, applySnapshot]);
+
   useEffect(() => {
-    const loadData = async () => {
-      if (isInitialFetch.current) {
-        isInitialFetch.current = false;
-        await fetchData();
+    if (isInitialFetch.current) {
+      isInitialFetch.current = false;
+      // Stale-while-revalidate: paint the last good copy, then refetch
+      const cached = readCachedSnapshot();
+      if (cached && cached.source === dataSource.name) {
+        applySnapshot(cached, true);
+        setLoading(false);
       }
-    };
-    loadData();
+      fetchData();
+    }
+
+    return () => clearTimeout(highlightTimeout.current);
+  }, [fetchData, applySnapshot, dataSource]);
+
+  const anyIpoOpen = useMemo(() => hasOpenIpo(gmpData, new Date()), [gmpData]);
 
-    const intervalId = setInterval(fetchData, cacheDuration);
+  const nextRefreshAt = useRefreshScheduler({
+    refresh: fetchData,
+    refreshing,
+    lastAttemptAt,
+    intervalMs: refreshInterval,
+    anyIpoOpen,
+  });
 
-    return () => clearInterval(intervalId);
-  }, [fetchData, cacheDuration]);
+  const schedule = useMemo<RefreshSchedule>(
+    () => ({
+      nextRefreshAt,
+      intervalMs: refreshInterval,
+      setIntervalMs: (intervalMs) => {
+        writeRefreshInterval(intervalMs);
+        setRefreshInterval(intervalMs);
+      },
+    }),
+    [nextRefreshAt, refreshInterval]
+  );
 
   const filteredAndSortedData = useMemo(() => {
+    const now = new Date();
+    const query = parseQuery(searchTerm, now);
     return sortData(
-      gmpData.filter((item) =>
-        decodeHTML(item.ipo).toLowerCase().includes(searchTerm.toLowerCase())
+      gmpData.filter(
+        (item) =>
+          (!watchlistOnly || watchlist.has(item.id)) &&
+          matchesQuery(item, query, now) &&
+          matchesFilters(item, filters, now, annotations[item.id]?.tags)
       ),
-      sortBy,
-      sortOrder
+      sort
     );
-  }, [gmpData, searchTerm, sortBy, sortOrder]);
+  }, [
+    gmpData,
+    searchTerm,
+    filters,
+    watchlistOnly,
+    watchlist,
+    annotations,
+    sort,
+  ]);
+
+  useEffect(() => {
+    registerServiceWorker((apply) => setApplyUpdate(() => apply));
+  }, []);
+
+  const trends = useMemo(() => {
+    const now = new Date();
+    return Object.fromEntries(
+      gmpData.map((ipo) => [ipo.id, gmpTrend(ipo, history[ipo.id], now)])
+    ) as Record<string, GmpTrend>;
+  }, [gmpData, history]);
 
   const statsData = useMemo<StatsData>(() => {
     const now = new Date();
-    const activeIPOs = gmpData.filter((item) => {
-      const openDate = parseDate(item.open);
-      const closeDate = parseDate(item.close);
-      return openDate && now >= openDate && closeDate && now <= closeDate;
-    }).length;
-
-    const upcomingIPOs = gmpData.filter((item) => {
-      const openDate = parseDate(item.open);
-      return openDate && openDate > now;
-    }).length;
-
-    const avgGMP =
-      gmpData
-        .filter((item) => item.gmp !== "-")
-        .reduce((acc, curr) => acc + (parseFloat(curr.gmp) || 0), 0) /
-      gmpData.filter((item) => item.gmp !== "-").length;
-
-    return { activeIPOs, upcomingIPOs, avgGMP };
-  }, [gmpData]);
-
-  const handleSort = (column: string) => {
-    setSortOrder(
-      sortBy === column
-        ? sortOrder === SortOrder.ASC
-          ? SortOrder.DESC
-          : SortOrder.ASC
-        : SortOrder.ASC
+    const isOpen = (ipo: Ipo) => isTakingBids(lifecyclePhase(ipo, now));
+    const average = (ipos: Ipo[]) => {
+      const gmps = ipos.flatMap(({ gmp }) => (gmp === null ? [] : [gmp]));
+      return gmps.length
+        ? gmps.reduce((acc, curr) => acc + curr, 0) / gmps.length
+        : null;
+    };
+
+    const phases = Object.fromEntries(
+      LIFECYCLE_PHASES.map(({ value }) => [value, 0])
+    ) as Record<LifecyclePhase, number>;
+    for (const ipo of gmpData) {
+      const phase = lifecyclePhase(ipo, now);
+      if (phase) phases[phase] += 1;
+    }
+
+    const watched = gmpData.filter(({ id }) => watchlist.has(id));
+
+    return {
+      phases,
+      avgGMP: average(gmpData) ?? 0,
+      watchlist: {
+        count: watched.length,
+        open: watched.filter(isOpen).length,
+        avgGMP: average(watched),
+      },
+    };
+  }, [gmpData, watchlist]);
+
+  // Typing refines the current history entry rather than adding one per key
+  const setSearchTerm = (search: string) =>
+    updateViewState({ search }, { replace: true });
+  const setSort = (sort: SortKey[]) => updateViewState({ sort });
+  const setFilters = (filters: IpoFilters, options?: UpdateViewStateOptions) =>
+    updateViewState({ filters }, options);
+  const setSelected = (selected: string | null) =>
+    updateViewState({ selected });
+  const setWatchlistOnly = (watchlistOnly: boolean) =>
+    updateViewState({ watchlistOnly });
+  const toggleWatchlist = (id: string) => {
+    const next = toggleWatched(watchlist, id);
+    writeWatchlist(next);
+    setWatchlist(next);
+  };
+  const annotate = (
+    id: string,
+    annotation: Pick<IpoAnnotation, "note" | "tags">
+  ) =>
+    setAnnotations((current) => {
+      const next = setAnnotation(current, id, annotation);
+      writeAnnotations(next);
+      return next;
+    });
+
+  // Exports what's on screen, in the on-screen order
+  const handleExport = () => {
+    downloadFile(
+      `ipo-gmp-${toIstIsoDate(new Date())}.csv`,
+      // BOM so Excel reads the file as UTF-8 (₹, accented names)
+      "\ufeff" + toCsv(filteredAndSortedData, annotations),
+      "text/csv;charset=utf-8"
     );
+  };
+  const handleExportCalendar = () => {
+    downloadFile(
+      `ipo-dates-${toIstIsoDate(new Date())}.ics`,
+      toIcs(filteredAndSortedData, new Date(), window.location.origin),
+      "text/calendar;charset=utf-8"
+    );
+  };
+  // Picking the layout the screen would use anyway goes back to following it
+  const setView = (mode: ViewMode) =>
+    updateViewState({
+      view: mode === (isMobile ? ViewMode.CARDS : ViewMode.TABLE) ? null : mode,
+    });
 
-    setSortBy(column as SortBy);
+  const handleSort = (column: SortBy, additive: boolean) => {
+    setSort(toggleSortKey(sort, column, additive));
   };
 
   const handleRefresh = () => {
-    fetchData(true);
+    fetchData();
+  };
+
+  // Shared by every dashboard view; each adds only its own extras
+  const dashboardProps: DashboardViewProps = {
+    filteredAndSortedData,
+    statsData,
+    changeLog,
+    isMobile,
+    refreshing,
+    searchTerm,
+    setSearchTerm,
+    sort,
+    setSort,
+    fetchData: handleRefresh,
+    dataStatus,
+    schedule,
+    filters,
+    setFilters,
+    view,
+    setView,
+    watchlistOnly,
+    setWatchlistOnly,
+    watchlistCount: statsData.watchlist.count,
+    knownTags,
+    onExport: handleExport,
+    onExportCalendar: handleExportCalendar,
+    calendarFeedUrl: calendarFeedUrl(
+      window.location.origin,
+      watchlistOnly ? [...watchlist] : null
+    ),
+    onOpenAlerts: () => setAlertsOpen(true),
+    unreadAlerts: alerts.unread,
+  };
+  const listProps: IpoListViewProps = {
+    ...dashboardProps,
+    trends,
+    highlightedIds,
+    selected,
+    setSelected,
+    watchlist,
+    toggleWatchlist,
+    annotations,
+    annotate,
   };
 
   if (loading) {
     return <Loader isMobile={isMobile} />;
   }
-  if (error) {
+  if (error && dataStatus.fetchedAt === null) {
     return (
-      <div className="p-4 space-y-4">
-        <Card>
-          <CardContent className="p-4">
-            <div className="tfont-semibold text-primary">An error occurred</div>
-            <div className="text-muted-foreground">{error}</div>
-          </CardContent>
-        </Card>
-      </div>
+      <ErrorAlert error={error} retrying={refreshing} onRetry={handleRefresh} />
     );
   }
 
   return (
     <Suspense fallback={<Loader isMobile={isMobile} />}>
-      {isMobile ? (
-        <MobileTable
-          filteredAndSortedData={filteredAndSortedData}
-          refreshing={refreshing}
-          searchTerm={searchTerm}
-          setSearchTerm={setSearchTerm}
-          sortBy={sortBy}
-          setSortBy={setSortBy}
-          sortOrder={sortOrder}
-          setSortOrder={setSortOrder}
-          statsData={statsData}
-          fetchData={handleRefresh}
+      {applyUpdate && <UpdatePrompt onReload={applyUpdate} />}
+      {dataStatus.offline && <OfflineBanner fetchedAt={dataStatus.fetchedAt} />}
+      {error && (
+        <ErrorAlert
+          error={error}
+          retrying={refreshing}
+          onRetry={handleRefresh}
+          onDismiss={() => setError(null)}
         />
-      ) : (
-        <DeskTopTable
-          searchTerm={searchTerm}
-          setSearchTerm={setSearchTerm}
-          sortBy={sortBy}
-          setSortBy={setSortBy}
-          sortOrder={sortOrder}
-          setSortOrder={setSortOrder}
-          statsData={statsData}
-          fetchData={handleRefresh}
-          refreshing={refreshing}
-          filteredAndSortedData={filteredAndSortedData}
-          handleSort={handleSort}
+      )}
+      {alertsOpen && (
+        <AlertsDrawer
+          onClose={() => setAlertsOpen(false)}
+          ipos={gmpData}
+          rules={alerts.rules}
+          setRules={alerts.setRules}
+          log={alerts.log}
+          markAllRead={alerts.markAllRead}
+          permission={alerts.permission}
+          requestPermission={alerts.requestPermission}
         />
       )}
+      {route.name === "planner" ? (
+        <Planner ipos={gmpData} backTo={dashboardPath} />
+      ) : route.name === "ipo" ? (
+        <IpoDetail
+          id={route.id}
+          ipo={gmpData.find(({ id }) => id === route.id)}
+          history={history[route.id] ?? []}
+          trend={trends[route.id]}
+          watched={watchlist.has(route.id)}
+          toggleWatchlist={() => toggleWatchlist(route.id)}
+          annotation={annotations[route.id]}
+          annotate={(annotation) => annotate(route.id, annotation)}
+          knownTags={knownTags}
+          backTo={dashboardPath}
+        />
+      ) : view === ViewMode.TIMELINE ? (
+        <TimelineView {...dashboardProps} />
+      ) : view === ViewMode.CALENDAR ? (
+        <CalendarView {...dashboardProps} />
+      ) : view === ViewMode.CARDS ? (
+        <MobileTable {...listProps} />
+      ) : (
+        <DeskTopTable {...listProps} handleSort={handleSort} />
+      )}
     </Suspense>
   );
 }
@@ -0,0 +1,343 @@
+import { lazy, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+import { CalendarEvent, DashboardViewProps } from "@/types";
+import { cn } from "@/lib/utils";
+import { toIstIsoDate } from "@/lib/dates";
+import {
+  CALENDAR_EVENT_KINDS,
+  addDays,
+  addMonths,
+  calendarEvents,
+  eventsByDay,
+  formatDay,
+  isSameMonth,
+  monthWeeks,
+  weekDays,
+} from "@/lib/calendar";
+import { ipoPath } from "@/lib/router";
+import { useNow } from "@/hooks/useNow";
+import { Card } from "../ui/card";
+import ChangeLog from "../common/ChangeLog";
+import Link from "../common/Link";
+
+const Stats = lazy(() => import("../common/Stats"));
+const SearchAndControls = lazy(() => import("../common/SearchAndControls"));
+
+type CalendarMode = "month" | "week";
+
+// Events beyond this many in a month cell collapse into "+N more"
+const MONTH_CELL_EVENTS = 3;
+
+const kindStyle = (kind: CalendarEvent["kind"]) =>
+  CALENDAR_EVENT_KINDS.find((entry) => entry.kind === kind) ??
+  CALENDAR_EVENT_KINDS[0];
+
+const EventChip = ({ event }: { event: CalendarEvent }) => {
+  const { label, className } = kindStyle(event.kind);
+  return (
+    <Link
+      to={ipoPath(event.ipo.id)}
+      title={`${label}: ${event.ipo.baseName}`}
+      className={cn(
+        "block truncate rounded border px-1.5 py-0.5 text-xs hover:brightness-95",
+        className
+      )}
+    >
+      <span className="font-medium">{label}</span> {event.ipo.baseName}
+    </Link>
+  );
+};
+
+const Legend = () => (
+  <div className="flex flex-wrap gap-2 text-xs">
+    {CALENDAR_EVENT_KINDS.map(({ kind, label, className }) => (
+      <span
+        key={kind}
+        className={cn("rounded border px-1.5 py-0.5", className)}
+      >
+        {label}
+      </span>
+    ))}
+  </div>
+);
+
+const DayHeading = ({ day, today }: { day: string; today: string }) => (
+  <div className="flex items-center gap-1 text-xs">
+    <span
+      className={cn(
+        "inline-flex h-6 min-w-6 items-center justify-center rounded-full px-1",
+        day === today && "bg-primary text-primary-foreground font-semibold"
+      )}
+    >
+      {formatDay(day, { day: "numeric" })}
+    </span>
+    {day === today && <span className="font-medium text-primary">Today</span>}
+  </div>
+);
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const MonthGrid = ({
+  anchor,
+  today,
+  byDay,
+}: {
+  anchor: string;
+  today: string;
+  byDay: Map<string, CalendarEvent[]>;
+}) => (
+  <div className="grid grid-cols-7 border-l border-t text-sm">
+    {WEEKDAY_LABELS.map((label) => (
+      <div
+        key={label}
+        className="border-b border-r px-2 py-1 text-xs font-medium text-muted-foreground"
+      >
+        {label}
+      </div>
+    ))}
+    {monthWeeks(anchor)
+      .flat()
+      .map((day) => {
+        const events = byDay.get(day) ?? [];
+        return (
+          <div
+            key={day}
+            className={cn(
+              "min-h-28 space-y-1 border-b border-r p-1",
+              !isSameMonth(day, anchor) && "bg-muted/40 text-muted-foreground",
+              day === today && "ring-2 ring-inset ring-primary"
+            )}
+          >
+            <DayHeading day={day} today={today} />
+            {events.slice(0, MONTH_CELL_EVENTS).map((event) => (
+              <EventChip key={`${event.ipo.id}-${event.kind}`} event={event} />
+            ))}
+            {events.length > MONTH_CELL_EVENTS && (
+              <div
+                className="px-1 text-xs text-muted-foreground"
+                title={events
+                  .slice(MONTH_CELL_EVENTS)
+                  .map(
+                    ({ kind, ipo }) =>
+                      `${kindStyle(kind).label}: ${ipo.baseName}`
+                  )
+                  .join("\n")}
+              >
+                +{events.length - MONTH_CELL_EVENTS} more
+              </div>
+            )}
+          </div>
+        );
+      })}
+  </div>
+);
+
+const WeekGrid = ({
+  anchor,
+  today,
+  byDay,
+}: {
+  anchor: string;
+  today: string;
+  byDay: Map<string, CalendarEvent[]>;
+}) => (
+  <div className="grid grid-cols-7 border-l border-t text-sm">
+    {weekDays(anchor).map((day, index) => (
+      <div
+        key={day}
+        className={cn(
+          "min-h-64 space-y-1 border-b border-r p-1",
+          day === today && "ring-2 ring-inset ring-primary"
+        )}
+      >
+        <div className="text-xs font-medium text-muted-foreground">
+          {WEEKDAY_LABELS[index]}
+        </div>
+        <DayHeading day={day} today={today} />
+        {(byDay.get(day) ?? []).map((event) => (
+          <EventChip key={`${event.ipo.id}-${event.kind}`} event={event} />
+        ))}
+      </div>
+    ))}
+  </div>
+);
+
+// Day-by-day list for small screens, from today on unless asked for more
+const Agenda = ({
+  today,
+  byDay,
+}: {
+  today: string;
+  byDay: Map<string, CalendarEvent[]>;
+}) => {
+  const [showPast, setShowPast] = useState(false);
+  const days = [...byDay.keys()].filter((day) => showPast || day >= today);
+  const hasPast = [...byDay.keys()].some((day) => day < today);
+
+  return (
+    <div className="space-y-3">
+      {hasPast && (
+        <button
+          type="button"
+          onClick={() => setShowPast(!showPast)}
+          className="text-sm text-muted-foreground underline"
+        >
+          {showPast ? "Hide past dates" : "Show past dates"}
+        </button>
+      )}
+      {days.length === 0 && (
+        <div className="text-sm text-muted-foreground">
+          No upcoming dates for these IPOs.
+        </div>
+      )}
+      {days.map((day) => (
+        <section key={day}>
+          <h3
+            className={cn(
+              "mb-1 text-sm font-medium",
+              day === today ? "text-primary" : "text-muted-foreground"
+            )}
+          >
+            {formatDay(day, {
+              weekday: "short",
+              day: "numeric",
+              month: "short",
+            })}
+            {day === today && " · Today"}
+          </h3>
+          <div className="space-y-1">
+            {byDay.get(day)?.map((event) => (
+              <EventChip key={`${event.ipo.id}-${event.kind}`} event={event} />
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Calendar of open, close, allotment and listing dates for the filtered
+ * IPOs, so clustered allotments and listings stand out. Month or week grid
+ * on desktop and an agenda list on mobile; events link to the IPO page.
+ */
+const CalendarView = ({
+  filteredAndSortedData,
+  statsData,
+  changeLog,
+  isMobile = false,
+  ...controls
+}: DashboardViewProps) => {
+  const today = toIstIsoDate(new Date(useNow(60000)));
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [anchor, setAnchor] = useState(today);
+
+  const byDay = useMemo(
+    () => eventsByDay(calendarEvents(filteredAndSortedData)),
+    [filteredAndSortedData]
+  );
+
+  const step = (direction: 1 | -1) =>
+    setAnchor(
+      mode === "month"
+        ? addMonths(anchor, direction)
+        : addDays(anchor, 7 * direction)
+    );
+
+  const title =
+    mode === "month"
+      ? formatDay(anchor, { month: "long", year: "numeric" })
+      : `Week of ${formatDay(weekDays(anchor)[0], {
+          day: "numeric",
+          month: "short",
+          year: "numeric",
+        })}`;
+
+  const navButtonClassName =
+    "inline-flex h-8 items-center justify-center rounded-md border border-input px-2 text-sm hover:bg-accent";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="w-full p-4"
+    >
+      <Stats statsData={statsData} key={"calendar-view-stats"} />
+      <SearchAndControls
+        {...controls}
+        isMobile={isMobile}
+        key={"calendar-view-controls"}
+      />
+      <ChangeLog entries={changeLog} />
+      <Card className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          {isMobile ? (
+            <h2 className="text-lg font-semibold">Agenda</h2>
+          ) : (
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => step(-1)}
+                aria-label={`Previous ${mode}`}
+                className={navButtonClassName}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setAnchor(today)}
+                className={navButtonClassName}
+              >
+                Today
+              </button>
+              <button
+                type="button"
+                onClick={() => step(1)}
+                aria-label={`Next ${mode}`}
+                className={navButtonClassName}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </button>
+              <h2 className="ml-2 text-lg font-semibold">{title}</h2>
+            </div>
+          )}
+          {!isMobile && (
+            <div className="flex rounded-md border border-input p-0.5">
+              {(["month", "week"] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMode(value)}
+                  aria-pressed={mode === value}
+                  className={cn(
+                    "rounded-sm px-3 py-1 text-sm capitalize",
+                    mode === value
+                      ? "bg-accent text-accent-foreground"
+                      : "text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <Legend />
+        {isMobile ? (
+          <Agenda today={today} byDay={byDay} />
+        ) : mode === "month" ? (
+          <MonthGrid anchor={anchor} today={today} byDay={byDay} />
+        ) : (
+          <WeekGrid anchor={anchor} today={today} byDay={byDay} />
+        )}
+        <p className="text-xs text-muted-foreground">
+          Dates are Indian market days (IST). Click an event to open the IPO.
+        </p>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default CalendarView;
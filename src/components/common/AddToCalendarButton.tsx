@@ -0,0 +1,35 @@
+import { CalendarPlus } from "lucide-react";
+import { Ipo } from "@/types";
+import { cn } from "@/lib/utils";
+import { toIcs } from "@/lib/ics";
+import { downloadFile } from "@/lib/export";
+
+// Downloads an .ics with this IPO's lifecycle dates
+const AddToCalendarButton = ({
+  ipo,
+  className,
+}: {
+  ipo: Ipo;
+  className?: string;
+}) => (
+  <button
+    type="button"
+    onClick={(event) => {
+      event.stopPropagation();
+      downloadFile(
+        `${ipo.id}.ics`,
+        toIcs([ipo], new Date(), window.location.origin),
+        "text/calendar;charset=utf-8"
+      );
+    }}
+    className={cn(
+      "inline-flex items-center gap-2 rounded-md border border-input px-3 h-9 text-sm hover:bg-accent",
+      className
+    )}
+  >
+    <CalendarPlus className="h-4 w-4" />
+    Add to calendar
+  </button>
+);
+
+export default AddToCalendarButton;
@@ -0,0 +1,349 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Bell, Trash2, X } from "lucide-react";
+
+import { AlertNotification, AlertRule, AlertRuleKind, Ipo } from "@/types";
+import { ALERT_RULE_KINDS, describeRule, newAlertRuleId } from "@/lib/alerts";
+import { ipoPath } from "@/lib/router";
+import { cn, formatDateTime } from "@/lib/utils";
+import { Input } from "../ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import Link from "./Link";
+
+// Select value for "every IPO" (radix items can't use "")
+const ANY_IPO = "any";
+
+const smallButtonClassName =
+  "inline-flex items-center gap-1 rounded-md border border-input px-2 h-8 text-sm hover:bg-accent";
+
+// Builds a rule from the form fields, or null while they are incomplete
+const buildRule = (
+  kind: AlertRuleKind,
+  fields: {
+    ipoId: string;
+    direction: "above" | "below";
+    threshold: string;
+    watchlistOnly: boolean;
+  }
+): AlertRule | null => {
+  const id = newAlertRuleId();
+  const threshold = Number(fields.threshold);
+  const validThreshold = fields.threshold.trim() !== "" && isFinite(threshold);
+  switch (kind) {
+    case "gmp-crosses":
+      return validThreshold
+        ? {
+            id,
+            enabled: true,
+            kind,
+            ipoId: fields.ipoId === ANY_IPO ? null : fields.ipoId,
+            direction: fields.direction,
+            threshold,
+          }
+        : null;
+    case "opens-with-gmp-percent":
+      return validThreshold ? { id, enabled: true, kind, threshold } : null;
+    case "closes-today":
+    case "listing-tomorrow":
+      return { id, enabled: true, kind, watchlistOnly: fields.watchlistOnly };
+  }
+};
+
+const NewRuleForm = ({
+  ipos,
+  onAdd,
+}: {
+  ipos: Ipo[];
+  onAdd: (rule: AlertRule) => void;
+}) => {
+  const [kind, setKind] = useState<AlertRuleKind>("gmp-crosses");
+  const [ipoId, setIpoId] = useState(ANY_IPO);
+  const [direction, setDirection] = useState<"above" | "below">("above");
+  const [threshold, setThreshold] = useState("");
+  const [watchlistOnly, setWatchlistOnly] = useState(false);
+
+  const rule = buildRule(kind, { ipoId, direction, threshold, watchlistOnly });
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!rule) return;
+    onAdd(rule);
+    setThreshold("");
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-2 rounded-md border p-3">
+      <Select
+        value={kind}
+        onValueChange={(value) => setKind(value as AlertRuleKind)}
+      >
+        <SelectTrigger aria-label="Alert type">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ALERT_RULE_KINDS.map(({ kind, label }) => (
+            <SelectItem key={kind} value={kind}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {kind === "gmp-crosses" && (
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={ipoId} onValueChange={setIpoId}>
+            <SelectTrigger aria-label="IPO">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_IPO}>Any IPO</SelectItem>
+              {ipos.map(({ id, baseName }) => (
+                <SelectItem key={id} value={id}>
+                  {baseName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={direction}
+            onValueChange={(value) => setDirection(value as "above" | "below")}
+          >
+            <SelectTrigger aria-label="Direction">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="above">Rises above</SelectItem>
+              <SelectItem value="below">Falls below</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {(kind === "gmp-crosses" || kind === "opens-with-gmp-percent") && (
+        <Input
+          type="number"
+          inputMode="decimal"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          placeholder={kind === "gmp-crosses" ? "GMP in ₹, e.g. 50" : "GMP %"}
+          aria-label="Threshold"
+        />
+      )}
+      {(kind === "closes-today" || kind === "listing-tomorrow") && (
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={watchlistOnly}
+            onChange={(e) => setWatchlistOnly(e.target.checked)}
+          />
+          Watched IPOs only
+        </label>
+      )}
+      <button
+        type="submit"
+        disabled={!rule}
+        className={cn(smallButtonClassName, "disabled:opacity-50")}
+      >
+        Add rule
+      </button>
+    </form>
+  );
+};
+
+const PermissionNotice = ({
+  permission,
+  onRequest,
+}: {
+  permission: NotificationPermission | "unsupported";
+  onRequest: VoidFunction;
+}) => {
+  if (permission === "granted") return null;
+  return (
+    <div className="rounded-md bg-muted p-3 text-sm">
+      {permission === "default" ? (
+        <>
+          Alerts are only listed here until you allow notifications.{" "}
+          <button
+            type="button"
+            onClick={onRequest}
+            className="font-medium underline"
+          >
+            Enable browser notifications
+          </button>
+        </>
+      ) : permission === "denied" ? (
+        "Notifications are blocked for this site, so alerts are only listed here. Allow them in the browser's site settings."
+      ) : (
+        "This browser doesn't support notifications, so alerts are only listed here."
+      )}
+    </div>
+  );
+};
+
+/**
+ * Side panel with the alert rules and the history of delivered alerts.
+ * Rules are checked after every refresh while the dashboard is open.
+ */
+const AlertsDrawer = ({
+  onClose,
+  ipos,
+  rules,
+  setRules,
+  log,
+  markAllRead,
+  permission,
+  requestPermission,
+}: {
+  onClose: VoidFunction;
+  ipos: Ipo[];
+  rules: AlertRule[];
+  setRules: (rules: AlertRule[]) => void;
+  log: AlertNotification[];
+  markAllRead: VoidFunction;
+  permission: NotificationPermission | "unsupported";
+  requestPermission: VoidFunction;
+}) => {
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const sortedIpos = [...ipos].sort((a, b) =>
+    a.baseName.localeCompare(b.baseName)
+  );
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label="Alerts"
+        className="absolute inset-y-0 right-0 w-full max-w-md overflow-y-auto border-l bg-background p-4 shadow-lg space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <Bell className="h-5 w-5" />
+            Alerts
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close alerts"
+            className="rounded-sm p-1 hover:bg-accent"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <PermissionNotice
+          permission={permission}
+          onRequest={requestPermission}
+        />
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium">Rules</h3>
+          {rules.length === 0 && (
+            <div className="text-sm text-muted-foreground">
+              No rules yet. They are checked after every refresh.
+            </div>
+          )}
+          <ul className="space-y-1">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) =>
+                    setRules(
+                      rules.map((entry) =>
+                        entry.id === rule.id
+                          ? { ...entry, enabled: e.target.checked }
+                          : entry
+                      )
+                    )
+                  }
+                  aria-label={`Enable: ${describeRule(rule, ipos)}`}
+                />
+                <span
+                  className={cn(
+                    "flex-1",
+                    !rule.enabled && "text-muted-foreground"
+                  )}
+                >
+                  {describeRule(rule, ipos)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setRules(rules.filter(({ id }) => id !== rule.id))
+                  }
+                  aria-label={`Delete: ${describeRule(rule, ipos)}`}
+                  className="rounded-sm p-1 text-muted-foreground hover:text-foreground"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <NewRuleForm
+            ipos={sortedIpos}
+            onAdd={(rule) => setRules([...rules, rule])}
+          />
+        </section>
+
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium">History</h3>
+            {log.some(({ read }) => !read) && (
+              <button
+                type="button"
+                onClick={markAllRead}
+                className={smallButtonClassName}
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          {log.length === 0 && (
+            <div className="text-sm text-muted-foreground">
+              No alerts in the last 30 days.
+            </div>
+          )}
+          <ul className="space-y-2">
+            {log.map((entry) => (
+              <li
+                key={entry.key}
+                className={cn(
+                  "rounded-md border p-2 text-sm",
+                  !entry.read && "border-primary"
+                )}
+              >
+                <Link
+                  to={ipoPath(entry.ipoId)}
+                  onClick={onClose}
+                  className="font-medium hover:underline"
+                >
+                  {entry.title}
+                </Link>
+                <div>{entry.body}</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDateTime(new Date(entry.at))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      </aside>
+    </div>
+  );
+};
+
+export default AlertsDrawer;
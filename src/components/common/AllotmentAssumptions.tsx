@@ -0,0 +1,17 @@
+import { Info } from "lucide-react";
+import { ALLOTMENT_TOOLTIP } from "@/lib/allotment";
+
+// Info icon whose tooltip lists what the allotment estimate assumes
+const AllotmentAssumptions = () => (
+  <span
+    title={ALLOTMENT_TOOLTIP}
+    tabIndex={0}
+    onClick={(event) => event.stopPropagation()}
+    className="inline-flex cursor-help rounded-sm text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+  >
+    <Info className="h-3.5 w-3.5" />
+    <span className="sr-only">{ALLOTMENT_TOOLTIP}</span>
+  </span>
+);
+
+export default AllotmentAssumptions;
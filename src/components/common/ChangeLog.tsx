@@ -0,0 +1,81 @@
+import { History } from "lucide-react";
+import { ChangeEvent, ChangeLogEntry } from "@/types";
+import { describeChange } from "@/lib/diff";
+import { cn, formatTime } from "@/lib/utils";
+import { Card } from "../ui/card";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "../ui/accordion";
+
+const EVENT_STYLES: Record<ChangeEvent["type"], string> = {
+  listed: "text-blue-600",
+  removed: "text-muted-foreground",
+  gmp: "",
+  status: "text-orange-600",
+  subscription: "text-green-700",
+  dates: "text-muted-foreground",
+};
+
+const eventClassName = (event: ChangeEvent) => {
+  if (event.type === "gmp" && event.delta !== null) {
+    return event.delta > 0 ? "text-green-700" : "text-red-500";
+  }
+  return EVENT_STYLES[event.type];
+};
+
+/**
+ * Collapsible "what changed since last refresh" panel. The latest refresh is
+ * listed first; older refreshes from this session follow below it.
+ */
+const ChangeLog = ({ entries }: { entries: ChangeLogEntry[] }) => {
+  if (!entries.length) return null;
+  const latest = entries[0];
+
+  return (
+    <Card className="mb-6 px-4">
+      <Accordion type="single" collapsible>
+        <AccordionItem value="changes" className="border-b-0">
+          <AccordionTrigger className="py-3">
+            <span className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              {latest.events.length} change
+              {latest.events.length === 1 ? "" : "s"} since last refresh
+              <span className="text-xs font-normal text-muted-foreground">
+                at {formatTime(new Date(latest.at))}
+              </span>
+            </span>
+          </AccordionTrigger>
+          <AccordionContent>
+            <div className="max-h-64 space-y-3 overflow-y-auto">
+              {entries.map((entry) => (
+                <div key={entry.at}>
+                  <div className="mb-1 text-xs text-muted-foreground">
+                    {formatTime(new Date(entry.at))}
+                  </div>
+                  <ul className="space-y-1">
+                    {entry.events.map((event, index) => (
+                      <li
+                        key={`${event.id}-${event.type}-${index}`}
+                        className="flex flex-wrap gap-x-2"
+                      >
+                        <span className="font-medium">{event.name}</span>
+                        <span className={cn(eventClassName(event))}>
+                          {describeChange(event)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+    </Card>
+  );
+};
+
+export default ChangeLog;
@@ -0,0 +1,53 @@
+import { AlertTriangle, RefreshCcw, X } from "lucide-react";
+import { DataSourceError, FETCH_ERROR_LABELS } from "@/lib/errors";
+
+/**
+ * Inline, dismissible alert for a failed fetch. It sits above the dashboard
+ * so the last good data stays visible underneath it.
+ */
+const ErrorAlert = ({
+  error,
+  retrying,
+  onRetry,
+  onDismiss,
+}: {
+  error: DataSourceError;
+  retrying: boolean;
+  onRetry: VoidFunction;
+  onDismiss?: VoidFunction;
+}) => {
+  return (
+    <div
+      role="alert"
+      className="mx-4 mt-4 flex items-start gap-3 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800"
+    >
+      <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+      <div className="flex-1">
+        <div className="font-semibold">
+          {FETCH_ERROR_LABELS[error.kind]}
+          {error.status !== null && ` (${error.status})`}
+        </div>
+        <div className="text-red-700">{error.message}</div>
+      </div>
+      <button
+        onClick={onRetry}
+        disabled={retrying}
+        className="inline-flex items-center gap-1 rounded-md border border-red-300 bg-white px-2 py-1 text-xs font-medium hover:bg-red-100 disabled:opacity-50"
+      >
+        <RefreshCcw className={`h-3 w-3 ${retrying ? "animate-spin" : ""}`} />
+        Retry now
+      </button>
+      {onDismiss && (
+        <button
+          onClick={onDismiss}
+          aria-label="Dismiss"
+          className="rounded-md p-1 hover:bg-red-100"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorAlert;
@@ -0,0 +1,285 @@
+import { AnimatePresence, motion } from "framer-motion";
+import { X } from "lucide-react";
+import {
+  IpoFilters,
+  IpoSegment,
+  NumberRange,
+  SearchAndControlsProps,
+  UpdateViewStateOptions,
+} from "@/types";
+import { EMPTY_FILTERS } from "@/lib/filters";
+import { LIFECYCLE_PHASES } from "@/lib/phase";
+import { cn } from "@/lib/utils";
+import { Input } from "../ui/input";
+import { Card } from "../ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+
+const ALL_SEGMENTS = "all";
+
+const toNumber = (value: string) => (value === "" ? null : Number(value));
+
+const RangeField = ({
+  label,
+  unit,
+  range,
+  onChange,
+}: {
+  label: string;
+  unit: string;
+  range: NumberRange;
+  onChange: (range: NumberRange) => void;
+}) => (
+  <div>
+    <div className="text-sm font-medium mb-1">
+      {label} <span className="text-muted-foreground">({unit})</span>
+    </div>
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        inputMode="decimal"
+        placeholder="Min"
+        aria-label={`Minimum ${label}`}
+        value={range.min ?? ""}
+        onChange={(e) => onChange({ ...range, min: toNumber(e.target.value) })}
+      />
+      <span className="text-muted-foreground">–</span>
+      <Input
+        type="number"
+        inputMode="decimal"
+        placeholder="Max"
+        aria-label={`Maximum ${label}`}
+        value={range.max ?? ""}
+        onChange={(e) => onChange({ ...range, max: toNumber(e.target.value) })}
+      />
+    </div>
+  </div>
+);
+
+const toggleButtonClassName = (active: boolean) =>
+  cn(
+    "h-9 rounded-md border px-3 text-sm transition-colors",
+    active
+      ? "border-primary bg-primary text-primary-foreground"
+      : "border-input hover:bg-accent"
+  );
+
+const FilterFields = ({
+  filters,
+  setFilters,
+  knownTags,
+}: {
+  filters: IpoFilters;
+  setFilters: SearchAndControlsProps["setFilters"];
+  knownTags: string[];
+}) => {
+  const update = (
+    patch: Partial<IpoFilters>,
+    options?: UpdateViewStateOptions
+  ) => setFilters({ ...filters, ...patch }, options);
+  // Every keystroke refines the current history entry, like the search box
+  const updateRange = (patch: Partial<IpoFilters>) =>
+    update(patch, { replace: true });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div>
+        <div className="text-sm font-medium mb-1">Segment</div>
+        <Select
+          value={filters.segment ?? ALL_SEGMENTS}
+          onValueChange={(value) =>
+            update({
+              segment: value === ALL_SEGMENTS ? null : (value as IpoSegment),
+            })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_SEGMENTS}>All segments</SelectItem>
+            <SelectItem value="Mainboard">Mainboard</SelectItem>
+            <SelectItem value="SME">SME</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="md:col-span-2">
+        <div className="text-sm font-medium mb-1">Lifecycle phase</div>
+        <div className="flex flex-wrap gap-2">
+          {LIFECYCLE_PHASES.map(({ value, label }) => {
+            const active = filters.phases.includes(value);
+            return (
+              <button
+                key={value}
+                type="button"
+                aria-pressed={active}
+                onClick={() =>
+                  update({
+                    phases: active
+                      ? filters.phases.filter((phase) => phase !== value)
+                      : [...filters.phases, value],
+                  })
+                }
+                className={toggleButtonClassName(active)}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      <RangeField
+        label="GMP"
+        unit="₹"
+        range={filters.gmp}
+        onChange={(gmp) => updateRange({ gmp })}
+      />
+      <RangeField
+        label="GMP"
+        unit="%"
+        range={filters.gmpPercent}
+        onChange={(gmpPercent) => updateRange({ gmpPercent })}
+      />
+      <RangeField
+        label="Price"
+        unit="₹"
+        range={filters.price}
+        onChange={(price) => updateRange({ price })}
+      />
+      <RangeField
+        label="Issue size"
+        unit="₹ Cr"
+        range={filters.issueSize}
+        onChange={(issueSize) => updateRange({ issueSize })}
+      />
+      <label className="flex items-center gap-2 text-sm md:self-end md:h-9">
+        <input
+          type="checkbox"
+          checked={filters.hasSubscription}
+          onChange={(e) => update({ hasSubscription: e.target.checked })}
+          className="h-4 w-4 accent-primary"
+        />
+        Has subscription data
+      </label>
+      {knownTags.length > 0 && (
+        <div className="md:col-span-3">
+          <div className="text-sm font-medium mb-1">Tags</div>
+          <div className="flex flex-wrap gap-2">
+            {knownTags.map((tag) => {
+              const active = filters.tags.includes(tag);
+              return (
+                <button
+                  key={tag}
+                  type="button"
+                  aria-pressed={active}
+                  onClick={() =>
+                    update({
+                      tags: active
+                        ? filters.tags.filter((t) => t !== tag)
+                        : [...filters.tags, tag],
+                    })
+                  }
+                  className={toggleButtonClassName(active)}
+                >
+                  {tag}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * The advanced filter panel: an inline card on desktop and a bottom drawer
+ * on mobile.
+ */
+const FilterPanel = ({
+  open,
+  onClose,
+  isMobile,
+  filters,
+  setFilters,
+  knownTags,
+}: {
+  open: boolean;
+  onClose: VoidFunction;
+  isMobile: boolean;
+  filters: IpoFilters;
+  setFilters: SearchAndControlsProps["setFilters"];
+  knownTags: string[];
+}) => {
+  if (!isMobile) {
+    return open ? (
+      <Card className="p-4">
+        <FilterFields
+          filters={filters}
+          setFilters={setFilters}
+          knownTags={knownTags}
+        />
+      </Card>
+    ) : null;
+  }
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <>
+          <motion.div
+            key="filter-backdrop"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 z-40 bg-black/40"
+          />
+          <motion.div
+            key="filter-drawer"
+            role="dialog"
+            aria-label="Filters"
+            initial={{ y: "100%" }}
+            animate={{ y: 0 }}
+            exit={{ y: "100%" }}
+            transition={{ type: "tween", duration: 0.2 }}
+            className="fixed inset-x-0 bottom-0 z-50 max-h-[85vh] overflow-y-auto rounded-t-xl bg-background p-4 shadow-lg"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <div className="text-lg font-semibold">Filters</div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => setFilters(EMPTY_FILTERS)}
+                  className="text-sm text-muted-foreground hover:text-foreground"
+                >
+                  Clear all
+                </button>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  aria-label="Close filters"
+                  className="rounded-md p-1 hover:bg-accent"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+            <FilterFields
+              filters={filters}
+              setFilters={setFilters}
+              knownTags={knownTags}
+            />
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default FilterPanel;
@@ -0,0 +1,49 @@
+import { GmpTrend as GmpTrendData } from "@/types";
+import { cn, priceFormatter } from "@/lib/utils";
+import Sparkline from "./Sparkline";
+
+const Delta = ({ label, value }: { label: string; value: number | null }) => {
+  if (value === null) return null;
+  return (
+    <span
+      className={cn(
+        "whitespace-nowrap",
+        value > 0 && "text-green-700",
+        value < 0 && "text-red-500",
+        value === 0 && "text-muted-foreground"
+      )}
+    >
+      {value > 0 ? "▲" : value < 0 ? "▼" : "•"}{" "}
+      {priceFormatter.format(Math.abs(value))} {label}
+    </span>
+  );
+};
+
+/**
+ * GMP sparkline with the change since yesterday and since the issue opened.
+ * `compact` drops the text and shows only the sparkline.
+ */
+const GmpTrend = ({
+  trend,
+  compact = false,
+}: {
+  trend: GmpTrendData | undefined;
+  compact?: boolean;
+}) => {
+  if (!trend) return null;
+  const values = trend.points.flatMap(({ gmp }) => (gmp === null ? [] : [gmp]));
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <Sparkline values={values} />
+      {!compact && (
+        <div className="flex flex-col">
+          <Delta label="since yesterday" value={trend.sinceYesterday} />
+          <Delta label="since open" value={trend.sinceOpen} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GmpTrend;
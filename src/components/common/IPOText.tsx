@@ -1,41 +1,46 @@
-import { decodeHTML, getSubscriptionColor } from "@/lib/utils";
+import { Ipo } from "@/types";
+import { getSubscriptionColor } from "@/lib/utils";
 import { Badge } from "../ui/badge";
 
-const IPOText = ({ ipoString }: { ipoString: string }) => {
-  // Try to extract components with optional status and subscription
-  const subMatch = ipoString.match(/\(Sub:(\d+\.?\d*x)\)/);
-  const statusMatch = ipoString.match(/\s+(Open|Close)\s*/);
-
-  const subscriptionCount = subMatch ? subMatch[1] : null;
-  const status = statusMatch ? statusMatch[1] : null;
-
-  // Get the base name by removing status and subscription if they exist
-  let baseName = ipoString
-    .replace(/\s+(Open|Close)\s*/, "") // Remove status if exists
-    .replace(/\s*\(Sub:\d+\.?\d*x\)/, ""); // Remove subscription if exists
+/**
+ * Renders an IPO's parsed name: the company name with status, segment and
+ * exchange badges, plus the subscription multiple when the API reports one.
+ */
+const IPOText = ({ ipo }: { ipo: Ipo }) => {
+  const { baseName, status, subscription, segment, exchange, tokens } = ipo;
 
   return (
-    <div className="flex items-center gap-1">
+    <div className="flex flex-wrap items-center gap-1">
       <div className="flex items-center gap-2">
-        <span className="font-medium truncate">{decodeHTML(baseName)}</span>
+        <span className="font-medium truncate" title={ipo.name}>
+          {baseName}
+        </span>
         {status && (
           <Badge
-            variant={
-              status.toLowerCase() === "open" ? "success" : "destructive"
-            }
+            variant={status === "Open" ? "success" : "destructive"}
             className="text-xs whitespace-nowrap px-1 py-0 mx-2"
           >
             {status}
           </Badge>
         )}
       </div>
-      {subscriptionCount && (
+      {segment === "SME" && (
+        <Badge variant="outline" className="text-xs px-1 py-0">
+          {exchange ? `${exchange} SME` : "SME"}
+        </Badge>
+      )}
+      {tokens.map((token) => (
+        <Badge key={token} variant="outline" className="text-xs px-1 py-0">
+          {token}
+        </Badge>
+      ))}
+      {subscription !== null && (
         <div
           className={`text-sm ${getSubscriptionColor(
-            subscriptionCount
+            String(subscription)
           )} font-medium`}
         >
-          Sub: {subscriptionCount}
+          Sub: {subscription}x
         </div>
       )}
     </div>
@@ -0,0 +1,34 @@
+import { AnchorHTMLAttributes } from "react";
+import { navigate } from "@/lib/router";
+
+/**
+ * In-app link. Plain clicks navigate without a reload; modified clicks
+ * (new tab, new window) keep the browser's default behaviour.
+ */
+const Link = ({
+  to,
+  onClick,
+  ...props
+}: { to: string } & AnchorHTMLAttributes<HTMLAnchorElement>) => (
+  <a
+    href={to}
+    onClick={(event) => {
+      onClick?.(event);
+      if (
+        event.defaultPrevented ||
+        event.button !== 0 ||
+        event.metaKey ||
+        event.ctrlKey ||
+        event.shiftKey ||
+        event.altKey
+      ) {
+        return;
+      }
+      event.preventDefault();
+      navigate(to);
+    }}
+    {...props}
+  />
+);
+
+export default Link;
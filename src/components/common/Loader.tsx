@@ -13,8 +13,8 @@ import {
 const Loader = ({ isMobile }: { isMobile: boolean }) => {
   return (
     <div className="p-4 space-y-4">
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        {[1, 2, 3].map((i) => (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {[1, 2, 3, 4].map((i) => (
           <Card key={i}>
             <CardHeader className="p-4">
               <Skeleton className="h-4 w-[100px]" />
@@ -37,7 +37,7 @@ const Loader = ({ isMobile }: { isMobile: boolean }) => {
             </TableCaption>
             <TableHeader>
               <TableRow>
-                {Array.from({ length: 11 }).map((_, index) => (
+                {Array.from({ length: 18 }).map((_, index) => (
                   <TableHead key={index}>
                     <Skeleton className="h-4 w-full" />
                   </TableHead>
@@ -47,7 +47,7 @@ const Loader = ({ isMobile }: { isMobile: boolean }) => {
             <TableBody>
               {Array.from({ length: 10 }).map((_, index) => (
                 <TableRow key={index}>
-                  {Array.from({ length: 11 }).map((_, index) => (
+                  {Array.from({ length: 18 }).map((_, index) => (
                     <TableCell key={index}>
                       <Skeleton className="h-8 w-full" />
                     </TableCell>
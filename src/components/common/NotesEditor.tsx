@@ -0,0 +1,101 @@
+import { useId, useState } from "react";
+import { X } from "lucide-react";
+import { IpoAnnotation } from "@/types";
+import { MAX_TAG_LENGTH, normalizeTag } from "@/lib/annotations";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+
+type AnnotationChange = Pick<IpoAnnotation, "note" | "tags">;
+
+/**
+ * Private note and tags for one IPO. Tags are saved as soon as they are
+ * added or removed, the note when the text area loses focus.
+ */
+const NotesEditor = ({
+  annotation,
+  knownTags,
+  onChange,
+}: {
+  annotation: IpoAnnotation | undefined;
+  knownTags: string[];
+  onChange: (annotation: AnnotationChange) => void;
+}) => {
+  const id = useId();
+  const savedNote = annotation?.note ?? "";
+  const tags = annotation?.tags ?? [];
+  const [note, setNote] = useState(savedNote);
+  const [tagInput, setTagInput] = useState("");
+
+  const save = (patch: Partial<AnnotationChange>) =>
+    onChange({ note, tags, ...patch });
+
+  const addTag = () => {
+    const tag = normalizeTag(tagInput);
+    setTagInput("");
+    if (tag) save({ tags: [...tags, tag] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor={`${id}-note`} className="text-sm font-medium">
+          Notes
+        </label>
+        <textarea
+          id={`${id}-note`}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={() => note !== savedNote && save({})}
+          rows={2}
+          placeholder="Only stored in this browser"
+          className="mt-1 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+        />
+      </div>
+      <div>
+        <label htmlFor={`${id}-tag`} className="text-sm font-medium">
+          Tags
+        </label>
+        <div className="mt-1 flex flex-wrap items-center gap-2">
+          {tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+              {tag}
+              <button
+                type="button"
+                onClick={() => save({ tags: tags.filter((t) => t !== tag) })}
+                aria-label={`Remove tag ${tag}`}
+                className="rounded-sm hover:bg-background/60"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <Input
+            id={`${id}-tag`}
+            list={`${id}-suggestions`}
+            value={tagInput}
+            maxLength={MAX_TAG_LENGTH}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === ",") {
+                e.preventDefault();
+                addTag();
+              }
+            }}
+            onBlur={addTag}
+            placeholder="Add a tag…"
+            className="h-8 w-40"
+          />
+          <datalist id={`${id}-suggestions`}>
+            {knownTags
+              .filter((tag) => !tags.includes(tag))
+              .map((tag) => (
+                <option key={tag} value={tag} />
+              ))}
+          </datalist>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotesEditor;
@@ -0,0 +1,20 @@
+import { WifiOff } from "lucide-react";
+import { formatTime } from "@/lib/utils";
+
+const OfflineBanner = ({ fetchedAt }: { fetchedAt: number | null }) => {
+  return (
+    <div
+      role="status"
+      className="mx-4 mt-4 flex items-center gap-2 rounded-md border border-orange-200 bg-orange-50 px-4 py-2 text-sm text-orange-800"
+    >
+      <WifiOff className="h-4 w-4 shrink-0" />
+      <span>
+        Offline
+        {fetchedAt !== null &&
+          ` / showing data from ${formatTime(new Date(fetchedAt))}`}
+      </span>
+    </div>
+  );
+};
+
+export default OfflineBanner;
@@ -0,0 +1,26 @@
+import { LifecyclePhase } from "@/types";
+import { cn } from "@/lib/utils";
+import { phaseInfo } from "@/lib/phase";
+import { Badge } from "../ui/badge";
+
+// Lifecycle phase label, colored like the row it sits in
+const PhaseBadge = ({
+  phase,
+  className,
+}: {
+  phase: LifecyclePhase | null;
+  className?: string;
+}) => {
+  if (!phase) return null;
+  const { label, badgeClassName } = phaseInfo(phase);
+  return (
+    <Badge
+      variant="outline"
+      className={cn("whitespace-nowrap font-medium", badgeClassName, className)}
+    >
+      {label}
+    </Badge>
+  );
+};
+
+export default PhaseBadge;
@@ -0,0 +1,104 @@
+import { Search } from "lucide-react";
+import { KeyboardEvent, useMemo, useState } from "react";
+import { parseQuery, suggestQuery } from "@/lib/query";
+import { cn } from "@/lib/utils";
+import { Input } from "../ui/input";
+
+/**
+ * Search box for the query language in `lib/query.ts`, with autocomplete for
+ * the term being typed and an inline hint for terms that don't parse.
+ */
+const QueryInput = ({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+}) => {
+  const [focused, setFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const { errors } = useMemo(() => parseQuery(value), [value]);
+  const suggestions = useMemo(() => suggestQuery(value), [value]);
+  const showSuggestions = focused && suggestions.length > 0;
+
+  const accept = (index: number) => {
+    onChange(suggestions[index].value);
+    setHighlighted(0);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((index) => (index + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted(
+        (index) => (index - 1 + suggestions.length) % suggestions.length
+      );
+    } else if (e.key === "Tab" || e.key === "Enter") {
+      e.preventDefault();
+      accept(Math.min(highlighted, suggestions.length - 1));
+    } else if (e.key === "Escape") {
+      setFocused(false);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+      <Input
+        placeholder="Search IPOs, or try gmp>50 status:open -segment:sme"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+        }}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onKeyDown={onKeyDown}
+        aria-invalid={errors.length > 0}
+        aria-autocomplete="list"
+        aria-expanded={showSuggestions}
+        className={cn("pl-8", errors.length > 0 && "border-red-400")}
+      />
+      {showSuggestions && (
+        <ul
+          role="listbox"
+          className="absolute z-30 mt-1 w-full overflow-hidden rounded-md border bg-popover text-sm shadow-md"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.label}
+              role="option"
+              aria-selected={index === highlighted}
+              // Keep focus in the input while clicking a suggestion
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(index);
+              }}
+              className={cn(
+                "flex cursor-pointer justify-between gap-4 px-3 py-1.5",
+                index === highlighted && "bg-accent"
+              )}
+            >
+              <span className="font-mono">{suggestion.label}</span>
+              <span className="text-muted-foreground">
+                {suggestion.description}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {errors.length > 0 && !showSuggestions && (
+        <div className="mt-1 text-xs text-red-600" role="status">
+          {errors[0].message}
+          {errors.length > 1 && ` (+${errors.length - 1} more)`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueryInput;
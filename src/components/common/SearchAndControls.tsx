@@ -1,6 +1,18 @@
-import { RefreshCcw, Search } from "lucide-react";
-import { SetStateAction } from "react";
-import { Input } from "../ui/input";
+import {
+  Bell,
+  Calculator,
+  CalendarDays,
+  CalendarPlus,
+  GanttChart,
+  Download,
+  LayoutList,
+  RefreshCcw,
+  SlidersHorizontal,
+  Star,
+  Table2,
+  X,
+} from "lucide-react";
+import { useState } from "react";
 import {
   Select,
   SelectContent,
@@ -8,79 +20,357 @@ import {
   SelectTrigger,
   SelectValue,
 } from "../ui/select";
-import { SearchAndControlsProps, SortBy, SortOrder } from "@/types";
+import {
+  SearchAndControlsProps,
+  SortBy,
+  SortKey,
+  SortOrder,
+  ViewMode,
+} from "@/types";
+import { cn, formatCountdown, formatRelativeTime } from "@/lib/utils";
+import { REFRESH_INTERVAL_OPTIONS } from "@/lib/scheduler";
+import { useNow } from "@/hooks/useNow";
+import { activeFilterChips, clearFilter, EMPTY_FILTERS } from "@/lib/filters";
+import { Badge } from "../ui/badge";
+import FilterPanel from "./FilterPanel";
+import QueryInput from "./QueryInput";
+import Link from "./Link";
+import SubscribeCalendarButton from "./SubscribeCalendarButton";
+import { PLANNER_PATH } from "@/lib/router";
+import { describeIssue } from "@/lib/normalize";
+
+// Issues spelled out in the tooltip of the data-issues note
+const MAX_LISTED_ISSUES = 10;
+
+const buttonClassName =
+  "inline-flex items-center justify-center whitespace-nowrap rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 border border-input bg-background hover:bg-accent hover:text-accent-foreground h-9 px-4 py-2";
+
+const SORT_OPTIONS = [
+  { value: SortBy.IPO, label: "Company Name" },
+  { value: SortBy.PRICE, label: "Price" },
+  { value: SortBy.GMP, label: "GMP" },
+  { value: SortBy.EST_LISTING, label: "Estimated Listing" },
+  { value: SortBy.IPO_SIZE, label: "IPO Size" },
+  { value: SortBy.LOT, label: "Lot Size" },
+  { value: SortBy.OPEN, label: "Open Date" },
+  { value: SortBy.CLOSE, label: "Close Date" },
+  { value: SortBy.BOA_DT, label: "BOA Date" },
+  { value: SortBy.LISTING, label: "Listing" },
+  { value: SortBy.GMP_UPDATED, label: "GMP Updated" },
+  { value: SortBy.PHASE, label: "Phase" },
+  { value: SortBy.GMP_PERCENT, label: "GMP %" },
+  { value: SortBy.EST_LISTING_PERCENT, label: "Est. Listing %" },
+  { value: SortBy.MIN_INVESTMENT, label: "Min. Investment" },
+  { value: SortBy.LOT_GAIN, label: "Gain per Lot" },
+  { value: SortBy.SME_APPLICATION, label: "SME 2-Lot Amount" },
+  { value: SortBy.ALLOTMENT_CHANCE, label: "Allotment Odds" },
+  { value: SortBy.EXPECTED_VALUE, label: "Expected Value" },
+];
+
+// Select value for "no secondary sort" (radix items can't use "")
+const NO_SORT = "none";
+
+// Sets the key at `priority`, keeping the keys above it
+const replaceSortKey = (sort: SortKey[], priority: number, key: SortKey) => [
+  ...sort.slice(0, priority),
+  key,
+  ...sort.slice(priority + 1).filter(({ by }) => by !== key.by),
+];
+
+const VIEW_OPTIONS = [
+  { mode: ViewMode.TABLE, label: "Table view", Icon: Table2 },
+  { mode: ViewMode.CARDS, label: "Card view", Icon: LayoutList },
+  { mode: ViewMode.CALENDAR, label: "Calendar view", Icon: CalendarDays },
+  { mode: ViewMode.TIMELINE, label: "Timeline view", Icon: GanttChart },
+];
 
 const SearchAndControls = ({
   searchTerm,
   setSearchTerm,
-  sortBy,
-  setSortBy,
-  sortOrder,
-  setSortOrder,
+  sort,
+  setSort,
   isMobile = false,
   fetchData,
   refreshing,
+  dataStatus,
+  schedule,
+  filters,
+  setFilters,
+  view,
+  setView,
+  watchlistOnly,
+  setWatchlistOnly,
+  watchlistCount,
+  knownTags,
+  onExport,
+  onExportCalendar,
+  calendarFeedUrl,
+  onOpenAlerts,
+  unreadAlerts,
 }: SearchAndControlsProps) => {
+  const now = useNow(1000);
+  const [showFilters, setShowFilters] = useState(false);
+  const chips = activeFilterChips(filters);
+
   return (
-    <div className="flex flex-col md:flex-row gap-4 mb-6">
-      <div className="relative flex-1">
-        <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-        <Input
-          placeholder="Search IPOs..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="pl-8"
+    <div className="mb-6 space-y-3">
+      <div className="flex flex-col md:flex-row gap-4">
+        <QueryInput value={searchTerm} onChange={setSearchTerm} />
+        <button
+          type="button"
+          onClick={() => setShowFilters((show) => !show)}
+          aria-expanded={showFilters}
+          className={buttonClassName}
+        >
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Filters
+          {chips.length > 0 && (
+            <Badge className="ml-2 px-1.5 py-0">{chips.length}</Badge>
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={() => setWatchlistOnly(!watchlistOnly)}
+          aria-pressed={watchlistOnly}
+          className={cn(
+            buttonClassName,
+            watchlistOnly && "bg-accent text-accent-foreground"
+          )}
+        >
+          <Star
+            className={cn(
+              "h-4 w-4 mr-2",
+              watchlistOnly && "fill-amber-400 text-amber-500"
+            )}
+          />
+          Watchlist
+          <Badge variant="secondary" className="ml-2 px-1.5 py-0">
+            {watchlistCount}
+          </Badge>
+        </button>
+        {isMobile &&
+          [0, 1].map((priority) => {
+            const sortKey = sort[priority];
+            // The secondary sort is optional and needs a primary first
+            const optional = priority > 0;
+            return (
+              <div key={priority} className="flex gap-2 w-full">
+                <Select
+                  onValueChange={(value) =>
+                    setSort(
+                      value === NO_SORT
+                        ? sort.slice(0, priority)
+                        : replaceSortKey(sort, priority, {
+                            by: value as SortBy,
+                            order: sortKey?.order ?? SortOrder.DESC,
+                          })
+                    )
+                  }
+                  value={sortKey?.by ?? NO_SORT}
+                >
+                  <SelectTrigger
+                    className="w-[50%]"
+                    aria-label={optional ? "Then sort by" : "Sort by"}
+                  >
+                    <SelectValue
+                      placeholder={optional ? "Then by" : "Sort by"}
+                    />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {optional && (
+                      <SelectItem value={NO_SORT}>No secondary sort</SelectItem>
+                    )}
+                    {SORT_OPTIONS.filter(
+                      ({ value }) =>
+                        !sort.slice(0, priority).some(({ by }) => by === value)
+                    ).map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {optional ? `Then ${label}` : label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  onValueChange={(value: SortOrder) =>
+                    setSort(
+                      replaceSortKey(sort, priority, {
+                        ...sortKey,
+                        order: value,
+                      })
+                    )
+                  }
+                  value={sortKey?.order ?? ""}
+                  disabled={!sortKey}
+                >
+                  <SelectTrigger className="w-[50%]">
+                    <SelectValue placeholder="Sort order" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="asc">Ascending</SelectItem>
+                    <SelectItem value="desc">Descending</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        <button
+          onClick={fetchData}
+          disabled={refreshing}
+          className={buttonClassName}
+        >
+          <RefreshCcw
+            className={`h-4 w-4 mr-2 ${refreshing ? "animate-spin" : ""}`}
+          />
+          Refresh
+        </button>
+        <button
+          type="button"
+          onClick={onOpenAlerts}
+          className={buttonClassName}
+          aria-label={
+            unreadAlerts ? `Alerts, ${unreadAlerts} unread` : "Alerts"
+          }
+        >
+          <Bell className="h-4 w-4 mr-2" />
+          Alerts
+          {unreadAlerts > 0 && (
+            <span className="ml-2 rounded-full bg-primary px-1.5 text-xs text-primary-foreground">
+              {unreadAlerts}
+            </span>
+          )}
+        </button>
+        <Link to={PLANNER_PATH} className={buttonClassName}>
+          <Calculator className="h-4 w-4 mr-2" />
+          Planner
+        </Link>
+        <button type="button" onClick={onExport} className={buttonClassName}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </button>
+        <button
+          type="button"
+          onClick={onExportCalendar}
+          className={buttonClassName}
+          title="Open, close, allotment and listing dates of the IPOs shown, for Google Calendar, Outlook or Apple Calendar"
+        >
+          <CalendarPlus className="h-4 w-4 mr-2" />
+          Export .ics
+        </button>
+        <SubscribeCalendarButton
+          url={calendarFeedUrl}
+          watchlistOnly={watchlistOnly}
+          className={buttonClassName}
         />
-      </div>
-      {isMobile && (
-        <div className="flex gap-2 w-full">
-          <Select
-            onValueChange={(value: SetStateAction<string>) =>
-              setSortBy(value as SortBy)
-            }
-            value={sortBy}
+        <div
+          className="inline-flex self-start rounded-md border border-input p-0.5"
+          role="group"
+          aria-label="View"
+        >
+          {VIEW_OPTIONS.map(({ mode, label, Icon }) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setView(mode)}
+              aria-pressed={view === mode}
+              aria-label={label}
+              title={label}
+              className={`rounded-sm p-1.5 ${
+                view === mode
+                  ? "bg-accent text-accent-foreground"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              <Icon className="h-4 w-4" />
+            </button>
+          ))}
+        </div>
+        <Select
+          onValueChange={(value) => schedule.setIntervalMs(Number(value))}
+          value={String(schedule.intervalMs)}
+        >
+          <SelectTrigger
+            className={isMobile ? "w-full" : "w-[130px]"}
+            aria-label="Auto-refresh interval"
           >
-            <SelectTrigger className="w-[50%]">
-              <SelectValue placeholder="Sort by" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="ipo">Company Name</SelectItem>
-              <SelectItem value="price">Price</SelectItem>
-              <SelectItem value="gmp">GMP</SelectItem>
-              <SelectItem value="est_listing">Estimated Listing</SelectItem>
-              <SelectItem value="ipo_size">IPO Size</SelectItem>
-              <SelectItem value="lot">Lot Size</SelectItem>
-              <SelectItem value="open">Open Date</SelectItem>
-              <SelectItem value="close">Close Date</SelectItem>
-              <SelectItem value="boa_dt">BOA Date</SelectItem>
-              <SelectItem value="listing">Listing</SelectItem>
-              <SelectItem value="gmp_updated">GMP Updated</SelectItem>
-            </SelectContent>
-          </Select>
-          <Select
-            onValueChange={(value: SortOrder) => setSortOrder(value)}
-            value={sortOrder}
+            <SelectValue placeholder="Auto-refresh" />
+          </SelectTrigger>
+          <SelectContent>
+            {REFRESH_INTERVAL_OPTIONS.map((intervalMs) => (
+              <SelectItem key={intervalMs} value={String(intervalMs)}>
+                Every {intervalMs / 60000} min
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="self-center text-xs text-muted-foreground whitespace-nowrap">
+          {dataStatus.fetchedAt !== null && (
+            <div>
+              {dataStatus.source}
+              {dataStatus.fromCache || dataStatus.offline
+                ? " (cached)"
+                : ""} · {formatRelativeTime(now - dataStatus.fetchedAt)}
+            </div>
+          )}
+          {dataStatus.issues.length > 0 && (
+            <div
+              className="text-amber-700"
+              title={[
+                ...dataStatus.issues
+                  .slice(0, MAX_LISTED_ISSUES)
+                  .map(describeIssue),
+                ...(dataStatus.issues.length > MAX_LISTED_ISSUES
+                  ? [
+                      `…and ${dataStatus.issues.length - MAX_LISTED_ISSUES} more`,
+                    ]
+                  : []),
+              ].join("\n")}
+            >
+              {dataStatus.issues.length} data issue(s) in this payload
+            </div>
+          )}
+          <div>
+            {refreshing
+              ? "Refreshing…"
+              : schedule.nextRefreshAt === null
+                ? "Auto-refresh paused"
+                : `Next refresh in ${formatCountdown(
+                    schedule.nextRefreshAt - now
+                  )}`}
+          </div>
+        </div>
+      </div>
+      {chips.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {chips.map(({ key, label }) => (
+            <Badge key={key} variant="secondary" className="gap-1 pr-1">
+              {label}
+              <button
+                type="button"
+                onClick={() => setFilters(clearFilter(filters, key))}
+                aria-label={`Remove filter ${label}`}
+                className="rounded-sm hover:bg-background/60"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <button
+            type="button"
+            onClick={() => setFilters(EMPTY_FILTERS)}
+            className="text-xs text-muted-foreground underline-offset-2 hover:underline"
           >
-            <SelectTrigger className="w-[50%]">
-              <SelectValue placeholder="Sort order" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="asc">Ascending</SelectItem>
-              <SelectItem value="desc">Descending</SelectItem>
-            </SelectContent>
-          </Select>
+            Clear all
+          </button>
         </div>
       )}
-      <button
-        onClick={fetchData}
-        disabled={refreshing}
-        className="inline-flex items-center justify-center whitespace-nowrap rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 border border-input bg-background hover:bg-accent hover:text-accent-foreground h-9 px-4 py-2"
-      >
-        <RefreshCcw
-          className={`h-4 w-4 mr-2 ${refreshing ? "animate-spin" : ""}`}
-        />
-        Refresh
-      </button>
+      <FilterPanel
+        open={showFilters}
+        onClose={() => setShowFilters(false)}
+        isMobile={isMobile}
+        filters={filters}
+        setFilters={setFilters}
+        knownTags={knownTags}
+      />
     </div>
   );
 };
@@ -0,0 +1,56 @@
+import { cn } from "@/lib/utils";
+
+/**
+ * Minimal SVG line chart for a short series of values. Renders nothing for
+ * fewer than two points.
+ */
+const Sparkline = ({
+  values,
+  width = 64,
+  height = 20,
+  className,
+}: {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}) => {
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const points = values
+    .map((value, index) => {
+      const x = (index / (values.length - 1)) * width;
+      const y = height - 1 - ((value - min) / range) * (height - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+  const rising = values[values.length - 1] >= values[0];
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn(
+        rising ? "text-green-600" : "text-red-500",
+        "shrink-0",
+        className
+      )}
+      aria-hidden
+    >
+      <polyline
+        points={points}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+};
+
+export default Sparkline;
@@ -7,39 +7,77 @@ import {
   CardTitle,
 } from "../ui/card";
 import { priceFormatter } from "@/lib/utils";
+import { LIFECYCLE_PHASES } from "@/lib/phase";
+import PhaseBadge from "./PhaseBadge";
 
 const Stats = ({ statsData }: { statsData: StatsData }) => {
+  const { watchlist, phases } = statsData;
+  const closingToday = phases["closing-today"];
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-      <Card>
-        <CardHeader className="p-4">
-          <CardTitle className="text-lg">Active IPOs</CardTitle>
-          <CardDescription>Currently open for subscription</CardDescription>
-        </CardHeader>
-        <CardContent className="pt-0 px-4 pb-4">
-          <div className="text-2xl font-bold">{statsData.activeIPOs}</div>
-        </CardContent>
-      </Card>
-      <Card>
-        <CardHeader className="p-4">
-          <CardTitle className="text-lg">Upcoming IPOs</CardTitle>
-          <CardDescription>Opening soon</CardDescription>
-        </CardHeader>
-        <CardContent className="pt-0 px-4 pb-4">
-          <div className="text-2xl font-bold">{statsData.upcomingIPOs}</div>
-        </CardContent>
-      </Card>
-      <Card>
-        <CardHeader className="p-4">
-          <CardTitle className="text-lg">Average GMP</CardTitle>
-          <CardDescription>Current market premium</CardDescription>
-        </CardHeader>
-        <CardContent className="pt-0 px-4 pb-4">
-          <div className="text-2xl font-bold">
-            {priceFormatter.format(statsData.avgGMP)}
-          </div>
-        </CardContent>
-      </Card>
+    <div className="mb-6 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-lg">Active IPOs</CardTitle>
+            <CardDescription>
+              {closingToday
+                ? `Open for subscription, ${closingToday} closing today`
+                : "Currently open for subscription"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0 px-4 pb-4">
+            <div className="text-2xl font-bold">
+              {phases.open + closingToday}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-lg">Upcoming IPOs</CardTitle>
+            <CardDescription>Opening soon</CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0 px-4 pb-4">
+            <div className="text-2xl font-bold">{phases.upcoming}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-lg">Average GMP</CardTitle>
+            <CardDescription>Current market premium</CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0 px-4 pb-4">
+            <div className="text-2xl font-bold">
+              {priceFormatter.format(statsData.avgGMP)}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-lg">Watchlist</CardTitle>
+            <CardDescription>
+              {watchlist.count
+                ? `${watchlist.open} open · avg GMP ${
+                    watchlist.avgGMP === null
+                      ? "-"
+                      : priceFormatter.format(watchlist.avgGMP)
+                  }`
+                : "Star an IPO to track it here"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0 px-4 pb-4">
+            <div className="text-2xl font-bold">{watchlist.count}</div>
+          </CardContent>
+        </Card>
+      </div>
+      {/* Every phase, so closed, allotted and listed issues are counted too */}
+      <div className="flex flex-wrap gap-2" aria-label="IPOs by phase">
+        {LIFECYCLE_PHASES.map(({ value }) => (
+          <span key={value} className="inline-flex items-center gap-1 text-sm">
+            <PhaseBadge phase={value} />
+            {phases[value]}
+          </span>
+        ))}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { Check, Rss } from "lucide-react";
+
+// Copies the calendar feed URL, for "add calendar from URL" in calendar apps
+const SubscribeCalendarButton = ({
+  url,
+  watchlistOnly,
+  className,
+}: {
+  url: string;
+  // Whether the feed is limited to the watchlist, for the tooltip
+  watchlistOnly: boolean;
+  className?: string;
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      window.prompt("Copy this calendar URL", url);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={copy}
+      className={className}
+      title={`Copies a calendar URL with the dates of ${
+        watchlistOnly ? "your watched IPOs" : "every IPO"
+      }. Add it in Google Calendar, Outlook or Apple Calendar and it stays up to date.`}
+    >
+      {copied ? (
+        <Check className="h-4 w-4 mr-2" />
+      ) : (
+        <Rss className="h-4 w-4 mr-2" />
+      )}
+      {copied ? "URL copied" : "Subscribe"}
+    </button>
+  );
+};
+
+export default SubscribeCalendarButton;
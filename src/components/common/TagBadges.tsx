@@ -0,0 +1,19 @@
+import { Tag } from "lucide-react";
+import { Badge } from "../ui/badge";
+
+// The user's tags on an IPO, shown under its name
+const TagBadges = ({ tags }: { tags: string[] | undefined }) => {
+  if (!tags?.length) return null;
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <Badge key={tag} variant="secondary" className="gap-1 px-1.5 py-0">
+          <Tag className="h-3 w-3" />
+          {tag}
+        </Badge>
+      ))}
+    </div>
+  );
+};
+
+export default TagBadges;
@@ -0,0 +1,21 @@
+import { RefreshCcw } from "lucide-react";
+
+const UpdatePrompt = ({ onReload }: { onReload: VoidFunction }) => {
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-md border bg-background px-4 py-2 text-sm shadow-lg"
+    >
+      <span>A new version is available.</span>
+      <button
+        onClick={onReload}
+        className="inline-flex items-center gap-1 rounded-md bg-primary px-3 py-1 text-xs font-medium text-primary-foreground hover:bg-primary/90"
+      >
+        <RefreshCcw className="h-3 w-3" />
+        Reload
+      </button>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
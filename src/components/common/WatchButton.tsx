@@ -0,0 +1,36 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+/**
+ * Star toggle for the watchlist. Stops the click from reaching the row or
+ * accordion it sits in, so starring doesn't also select the IPO.
+ */
+const WatchButton = ({
+  name,
+  watched,
+  onToggle,
+}: {
+  name: string;
+  watched: boolean;
+  onToggle: VoidFunction;
+}) => (
+  <button
+    type="button"
+    onClick={(event) => {
+      event.stopPropagation();
+      onToggle();
+    }}
+    aria-pressed={watched}
+    aria-label={
+      watched ? `Remove ${name} from watchlist` : `Add ${name} to watchlist`
+    }
+    title={watched ? "Remove from watchlist" : "Add to watchlist"}
+    className="rounded-sm p-1 text-muted-foreground hover:text-amber-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+  >
+    <Star
+      className={cn("h-4 w-4", watched && "fill-amber-400 text-amber-500")}
+    />
+  </button>
+);
+
+export default WatchButton;
@@ -1,4 +1,4 @@
-import { lazy } from "react";
+import { Fragment, lazy, useState } from "react";
 import { motion } from "framer-motion";
 
 import { Card } from "../ui/card";
@@ -13,14 +13,72 @@ import {
 } from "../ui/table";
 import { ArrowUpDown, ChevronDown, ChevronUp } from "lucide-react";
 import {
+  cn,
   formatDate,
+  formatDateTime,
   formatIPOSize,
+  formatPercent,
   formatPrice,
-  parseDate,
 } from "@/lib/utils";
-import { GmpDataItem, SearchAndControlsProps, StatsData } from "@/types";
+import {
+  gmpPercent,
+  lotGain,
+  minInvestment,
+  smeMinApplication,
+} from "@/lib/metrics";
+import { Ipo, IpoListViewProps, SortBy, SortOrder } from "@/types";
 import { Badge } from "../ui/badge";
 import IPOText from "../common/IPOText";
+import GmpTrend from "../common/GmpTrend";
+import ChangeLog from "../common/ChangeLog";
+import WatchButton from "../common/WatchButton";
+import TagBadges from "../common/TagBadges";
+import NotesEditor from "../common/NotesEditor";
+import Link from "../common/Link";
+import { ipoPath } from "@/lib/router";
+import {
+  estimateAllotment,
+  readShowAllotmentColumn,
+  writeShowAllotmentColumn,
+} from "@/lib/allotment";
+import AllotmentAssumptions from "../common/AllotmentAssumptions";
+import PhaseBadge from "../common/PhaseBadge";
+import { lifecyclePhase, phaseRowClassName } from "@/lib/phase";
+import { useNow } from "@/hooks/useNow";
+
+const COLUMNS: { key: SortBy; label: string; allotment?: boolean }[] = [
+  { key: SortBy.IPO, label: "IPO" },
+  { key: SortBy.PHASE, label: "Phase" },
+  { key: SortBy.PRICE, label: "Price" },
+  { key: SortBy.GMP, label: "GMP" },
+  { key: SortBy.GMP_PERCENT, label: "GMP %" },
+  { key: SortBy.EST_LISTING, label: "Est. Listing" },
+  { key: SortBy.EST_LISTING_PERCENT, label: "Listing %" },
+  { key: SortBy.MIN_INVESTMENT, label: "Min. Investment" },
+  { key: SortBy.LOT_GAIN, label: "Gain / Lot" },
+  { key: SortBy.SME_APPLICATION, label: "SME 2 Lots" },
+  { key: SortBy.ALLOTMENT_CHANCE, label: "Allotment Odds", allotment: true },
+  { key: SortBy.EXPECTED_VALUE, label: "EV / Application", allotment: true },
+  { key: SortBy.IPO_SIZE, label: "IPO Size" },
+  { key: SortBy.LOT, label: "Lot Size" },
+  { key: SortBy.OPEN, label: "Open" },
+  { key: SortBy.CLOSE, label: "Close" },
+  { key: SortBy.BOA_DT, label: "Allotment" },
+  { key: SortBy.LISTING, label: "Listing" },
+  { key: SortBy.GMP_UPDATED, label: "Updated" },
+];
+
+const AllotmentCells = ({ ipo }: { ipo: Ipo }) => {
+  const estimate = estimateAllotment(ipo);
+  return (
+    <>
+      <TableCell>
+        {estimate ? formatPercent(estimate.probability * 100) : "-"}
+      </TableCell>
+      <TableCell>{formatPrice(estimate?.expectedValue ?? null)}</TableCell>
+    </>
+  );
+};
 
 const Stats = lazy(() => import("../common/Stats"));
 const SearchAndControls = lazy(() => import("../common/SearchAndControls"));
@@ -33,7 +91,7 @@ const SearchAndControls = lazy(() => import("../common/SearchAndControls"));
  * statistical information. It uses framer motion for animations and integrates
  * search and control functionalities.
  *
- * @param {{filteredAndSortedData: GmpDataItem[]; refreshing: boolean; searchTerm: string; setSearchTerm: (value: SetStateAction<string>) => void; sortBy: SortBy; setSortBy: (value: SetStateAction<SortBy>) => void; sortOrder: "asc" | "desc"; setSortOrder: (value: SetStateAction<"asc" | "desc">) => void; statsData: StatsData; fetchData: VoidFunction; handleSort: (column: string) => void;}} props
+ * @param {IpoListViewProps & {handleSort: (column: SortBy, additive: boolean) => void}} props
  * @returns {JSX.Element}
  */
 const DeskTopTable = ({
@@ -41,18 +99,48 @@ const DeskTopTable = ({
   refreshing,
   searchTerm,
   setSearchTerm,
-  sortBy,
-  setSortBy,
-  sortOrder,
-  setSortOrder,
+  sort,
+  setSort,
   statsData,
   fetchData,
   handleSort,
-}: SearchAndControlsProps & {
-  filteredAndSortedData: GmpDataItem[];
-  statsData: StatsData;
-  handleSort: (column: string) => void;
+  dataStatus,
+  schedule,
+  filters,
+  setFilters,
+  view,
+  setView,
+  selected,
+  setSelected,
+  watchlistOnly,
+  setWatchlistOnly,
+  watchlistCount,
+  watchlist,
+  toggleWatchlist,
+  annotations,
+  annotate,
+  knownTags,
+  onExport,
+  onExportCalendar,
+  calendarFeedUrl,
+  onOpenAlerts,
+  unreadAlerts,
+  trends,
+  changeLog,
+  highlightedIds,
+}: IpoListViewProps & {
+  handleSort: (column: SortBy, additive: boolean) => void;
 }) => {
+  const now = new Date(useNow(60000));
+  const [showAllotment, setShowAllotment] = useState(readShowAllotmentColumn);
+  const columns = COLUMNS.filter(
+    ({ allotment }) => !allotment || showAllotment
+  );
+
+  const toggleAllotment = () => {
+    writeShowAllotmentColumn(!showAllotment);
+    setShowAllotment(!showAllotment);
+  };
 
   return (
     <motion.div
@@ -63,89 +151,184 @@ const DeskTopTable = ({
       <Stats statsData={statsData} key={"desktop-view-stats"} />
       <SearchAndControls
         fetchData={fetchData}
+        dataStatus={dataStatus}
+        schedule={schedule}
+        filters={filters}
+        setFilters={setFilters}
+        view={view}
+        setView={setView}
+        watchlistOnly={watchlistOnly}
+        setWatchlistOnly={setWatchlistOnly}
+        watchlistCount={watchlistCount}
+        knownTags={knownTags}
+        onExport={onExport}
+        onExportCalendar={onExportCalendar}
+        calendarFeedUrl={calendarFeedUrl}
+        onOpenAlerts={onOpenAlerts}
+        unreadAlerts={unreadAlerts}
         refreshing={refreshing}
         searchTerm={searchTerm}
         setSearchTerm={setSearchTerm}
-        sortBy={sortBy}
-        setSortBy={setSortBy}
-        sortOrder={sortOrder}
-        setSortOrder={setSortOrder}
+        sort={sort}
+        setSort={setSort}
         key={"desktop-view-controls"}
       />
+      <ChangeLog entries={changeLog} />
+      <div className="flex items-center justify-end gap-2 mb-2">
+        <button
+          type="button"
+          onClick={toggleAllotment}
+          aria-pressed={showAllotment}
+          className={cn(
+            "rounded-md border px-3 h-8 text-sm",
+            showAllotment
+              ? "bg-primary text-primary-foreground border-primary"
+              : "border-input hover:bg-accent"
+          )}
+        >
+          Allotment estimate
+        </button>
+        <AllotmentAssumptions />
+      </div>
       <Card>
         <Table>
           <TableHeader>
             <TableRow>
-              {[
-                { key: "ipo", label: "IPO" },
-                { key: "price", label: "Price" },
-                { key: "gmp", label: "GMP" },
-                { key: "est_listing", label: "Est. Listing" },
-                { key: "ipo_size", label: "IPO Size" },
-                { key: "lot", label: "Lot Size" },
-                { key: "open", label: "Open" },
-                { key: "close", label: "Close" },
-                { key: "boa_dt", label: "Allotment" },
-                { key: "listing", label: "Listing" },
-                { key: "gmp_updated", label: "Updated" },
-              ].map(({ key, label }) => (
-                <TableHead
-                  key={key}
-                  className="cursor-pointer hover:bg-accent/50"
-                  onClick={() => handleSort(key)}
-                >
-                  <div className="flex items-center space-x-2">
-                    <span>{label}</span>
-                    {sortBy === key ? (
-                      sortOrder === "asc" ? (
-                        <ChevronUp className="w-4 h-4" />
+              <TableHead className="w-10">
+                <span className="sr-only">Watchlist</span>
+              </TableHead>
+              {columns.map(({ key, label, allotment }) => {
+                const priority = sort.findIndex(({ by }) => by === key);
+                const sortKey = sort[priority];
+                return (
+                  <TableHead
+                    key={key}
+                    className="cursor-pointer select-none hover:bg-accent/50"
+                    onClick={(event) => handleSort(key, event.shiftKey)}
+                    title="Click to sort, shift-click to add as a secondary sort"
+                    aria-sort={
+                      priority === 0
+                        ? sortKey.order === SortOrder.ASC
+                          ? "ascending"
+                          : "descending"
+                        : undefined
+                    }
+                  >
+                    <div className="flex items-center space-x-2">
+                      <span>{label}</span>
+                      {allotment && <AllotmentAssumptions />}
+                      {sortKey ? (
+                        <span className="inline-flex items-center">
+                          {sortKey.order === SortOrder.ASC ? (
+                            <ChevronUp className="w-4 h-4" />
+                          ) : (
+                            <ChevronDown className="w-4 h-4" />
+                          )}
+                          {sort.length > 1 && (
+                            <span className="text-[10px] font-semibold leading-none">
+                              {priority + 1}
+                            </span>
+                          )}
+                        </span>
                       ) : (
-                        <ChevronDown className="w-4 h-4" />
-                      )
-                    ) : (
-                      <ArrowUpDown className="w-4 h-4 opacity-50" />
-                    )}
-                  </div>
-                </TableHead>
-              ))}
+                        <ArrowUpDown className="w-4 h-4 opacity-50" />
+                      )}
+                    </div>
+                  </TableHead>
+                );
+              })}
             </TableRow>
           </TableHeader>
           <TableBody>
             {filteredAndSortedData.map((item, index) => (
-              <motion.tr
-                key={item.ipo}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05 }}
-                className={`hover:bg-accent ${item.classname}`}
-              >
-                <TableCell className="font-medium">
-                  <IPOText ipoString={item.ipo} key={item.ipo} />
-                </TableCell>
-                <TableCell>{formatPrice(item.price)}</TableCell>
-                <TableCell>
-                  <Badge
-                    variant={parseFloat(item.gmp) > 0 ? "default" : "secondary"}
-                  >
-                    {formatPrice(item.gmp)}
-                  </Badge>
-                </TableCell>
-                <TableCell>{item.est_listing}</TableCell>
-                <TableCell>{formatIPOSize(item.ipo_size)}</TableCell>
-                <TableCell>{item.lot}</TableCell>
-                <TableCell>{formatDate(parseDate(item.open))}</TableCell>
-                <TableCell>{formatDate(parseDate(item.close))}</TableCell>
-                <TableCell>{formatDate(parseDate(item.boa_dt))}</TableCell>
-                <TableCell>{formatDate(parseDate(item.listing))}</TableCell>
-                <TableCell>{formatDate(parseDate(item.gmp_updated))}</TableCell>
-              </motion.tr>
+              <Fragment key={item.id}>
+                <motion.tr
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  onClick={() =>
+                    setSelected(selected === item.id ? null : item.id)
+                  }
+                  aria-selected={selected === item.id}
+                  className={cn(
+                    "hover:bg-accent cursor-pointer",
+                    phaseRowClassName(item, now),
+                    selected === item.id && "bg-accent",
+                    highlightedIds.has(item.id) &&
+                      "ring-2 ring-inset ring-amber-400"
+                  )}
+                >
+                  <TableCell className="pr-0">
+                    <WatchButton
+                      name={item.baseName}
+                      watched={watchlist.has(item.id)}
+                      onToggle={() => toggleWatchlist(item.id)}
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    <Link
+                      to={ipoPath(item.id)}
+                      onClick={(event) => event.stopPropagation()}
+                      className="hover:underline"
+                    >
+                      <IPOText ipo={item} />
+                    </Link>
+                    <TagBadges tags={annotations[item.id]?.tags} />
+                  </TableCell>
+                  <TableCell>
+                    <PhaseBadge phase={lifecyclePhase(item, now)} />
+                  </TableCell>
+                  <TableCell>{formatPrice(item.price)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Badge
+                        variant={(item.gmp ?? 0) > 0 ? "default" : "secondary"}
+                      >
+                        {formatPrice(item.gmp)}
+                      </Badge>
+                      <GmpTrend trend={trends[item.id]} />
+                    </div>
+                  </TableCell>
+                  <TableCell>{formatPercent(gmpPercent(item))}</TableCell>
+                  <TableCell>
+                    {item.estListingPrice !== null
+                      ? formatPrice(item.estListingPrice)
+                      : (item.estListing ?? "-")}
+                  </TableCell>
+                  <TableCell>{formatPercent(item.estListingPercent)}</TableCell>
+                  <TableCell>{formatPrice(minInvestment(item))}</TableCell>
+                  <TableCell>{formatPrice(lotGain(item))}</TableCell>
+                  <TableCell>{formatPrice(smeMinApplication(item))}</TableCell>
+                  {showAllotment && <AllotmentCells ipo={item} />}
+                  <TableCell>{formatIPOSize(item.issueSize)}</TableCell>
+                  <TableCell>{item.lot ?? "-"}</TableCell>
+                  <TableCell>{formatDate(item.open)}</TableCell>
+                  <TableCell>{formatDate(item.close)}</TableCell>
+                  <TableCell>{formatDate(item.boaDate)}</TableCell>
+                  <TableCell>{formatDate(item.listing)}</TableCell>
+                  <TableCell>{formatDateTime(item.gmpUpdated)}</TableCell>
+                </motion.tr>
+                {selected === item.id && (
+                  <TableRow className="bg-accent/40 hover:bg-accent/40">
+                    <TableCell />
+                    <TableCell colSpan={columns.length}>
+                      <NotesEditor
+                        annotation={annotations[item.id]}
+                        knownTags={knownTags}
+                        onChange={(annotation) => annotate(item.id, annotation)}
+                      />
+                    </TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
             ))}
           </TableBody>
           <TableFooter>
             <TableRow>
-              <TableCell colSpan={11} className="text-center">
+              <TableCell colSpan={columns.length + 1} className="text-center">
                 Data sourced from the Varise website. The data auto-refreshes
-                every 5 minutes.
+                every {schedule.intervalMs / 60000} minutes, more often during
+                market hours and while an IPO is open.
               </TableCell>
             </TableRow>
           </TableFooter>
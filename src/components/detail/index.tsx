@@ -0,0 +1,402 @@
+import { ReactNode, useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { ArrowLeft, Check, Share2 } from "lucide-react";
+
+import {
+  GmpHistoryPoint,
+  GmpTrend as GmpTrendData,
+  Ipo,
+  IpoAnnotation,
+} from "@/types";
+import {
+  cn,
+  formatDate,
+  formatDateTime,
+  formatDuration,
+  formatIPOSize,
+  formatPercent,
+  formatPrice,
+} from "@/lib/utils";
+import {
+  gmpPercent,
+  lotGain,
+  minInvestment,
+  smeMinApplication,
+} from "@/lib/metrics";
+import { ipoPath } from "@/lib/router";
+import { estimateAllotment } from "@/lib/allotment";
+import { useNow } from "@/hooks/useNow";
+import { Badge } from "../ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import IPOText from "../common/IPOText";
+import GmpTrend from "../common/GmpTrend";
+import Sparkline from "../common/Sparkline";
+import Link from "../common/Link";
+import WatchButton from "../common/WatchButton";
+import TagBadges from "../common/TagBadges";
+import NotesEditor from "../common/NotesEditor";
+import AllotmentAssumptions from "../common/AllotmentAssumptions";
+import AddToCalendarButton from "../common/AddToCalendarButton";
+import PhaseBadge from "../common/PhaseBadge";
+import { lifecyclePhase } from "@/lib/phase";
+
+// How many of the latest history points the table lists
+const HISTORY_ROWS = 10;
+
+const Field = ({ label, children }: { label: string; children: ReactNode }) => (
+  <div>
+    <div className="text-sm font-medium mb-1 text-muted-foreground">
+      {label}
+    </div>
+    <div>{children}</div>
+  </div>
+);
+
+/**
+ * Open → close → allotment → listing, with a countdown to every step that
+ * hasn't happened yet.
+ */
+const Timeline = ({ ipo }: { ipo: Ipo }) => {
+  const now = useNow(60000);
+  const steps = [
+    { label: "Open", date: ipo.open },
+    { label: "Close", date: ipo.close },
+    { label: "Allotment", date: ipo.boaDate },
+    { label: "Listing", date: ipo.listing },
+  ];
+  const nextIndex = steps.findIndex(
+    ({ date }) => date === null || date.getTime() > now
+  );
+
+  return (
+    <ol className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+      {steps.map(({ label, date }, index) => {
+        const done = date !== null && date.getTime() <= now;
+        return (
+          <li
+            key={label}
+            className={cn(
+              "rounded-lg border p-3",
+              index === nextIndex && "border-primary",
+              done && "bg-accent/50"
+            )}
+          >
+            <div className="flex items-center gap-2 text-sm font-medium">
+              {done && <Check className="h-4 w-4 text-green-700" />}
+              {label}
+            </div>
+            <div>{formatDate(date)}</div>
+            <div className="text-xs text-muted-foreground">
+              {date === null
+                ? "Not announced"
+                : done
+                  ? "Done"
+                  : `in ${formatDuration(date.getTime() - now)}`}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+const HistoryTable = ({ points }: { points: GmpHistoryPoint[] }) => {
+  const gmps = points.flatMap(({ gmp }) => (gmp === null ? [] : [gmp]));
+  if (!points.length) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        No history yet. GMP is recorded on every refresh while this dashboard is
+        open.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <Sparkline values={gmps} width={320} height={60} className="w-full" />
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="font-medium py-1">Fetched</th>
+            <th className="font-medium py-1">GMP</th>
+            <th className="font-medium py-1">Subscription</th>
+          </tr>
+        </thead>
+        <tbody>
+          {points
+            .slice(-HISTORY_ROWS)
+            .reverse()
+            .map((point) => (
+              <tr key={point.at} className="border-t">
+                <td className="py-1">{formatDateTime(new Date(point.at))}</td>
+                <td className="py-1">{formatPrice(point.gmp)}</td>
+                <td className="py-1">
+                  {point.subscription === null ? "-" : `${point.subscription}x`}
+                </td>
+              </tr>
+            ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const AllotmentCard = ({ ipo }: { ipo: Ipo }) => {
+  const estimate = estimateAllotment(ipo);
+  return (
+    <Card>
+      <CardHeader className="p-4">
+        <CardTitle className="text-lg flex items-center gap-2">
+          Allotment Estimate
+          <AllotmentAssumptions />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 px-4 pb-4">
+        {estimate ? (
+          <div className="grid grid-cols-2 gap-4">
+            <Field label="Retail Allotment Odds">
+              {formatPercent(estimate.probability * 100)}
+            </Field>
+            <Field label="Expected Value / Application">
+              {formatPrice(estimate.expectedValue)}
+            </Field>
+            <Field label="Retail Minimum Bids">
+              {estimate.retailBids === null
+                ? "-"
+                : estimate.retailBids.toLocaleString("en-IN")}
+            </Field>
+            <Field label="Subscription">{ipo.subscription}x</Field>
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground">
+            Available once subscription figures are reported.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Shares through the OS sheet where available, otherwise copies the link
+const ShareButton = ({ ipo }: { ipo: Ipo }) => {
+  const [copied, setCopied] = useState(false);
+  const url = `${window.location.origin}${ipoPath(ipo.id)}`;
+
+  const share = async () => {
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: `${ipo.baseName} IPO`, url });
+        return;
+      } catch {
+        // Dismissed or unsupported payload; fall back to copying
+      }
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      window.prompt("Copy this link", url);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={share}
+      className="inline-flex items-center gap-2 rounded-md border border-input px-3 h-9 text-sm hover:bg-accent"
+    >
+      {copied ? <Check className="h-4 w-4" /> : <Share2 className="h-4 w-4" />}
+      {copied ? "Link copied" : "Share"}
+    </button>
+  );
+};
+
+/**
+ * Full page for a single IPO at `/ipo/:id`: every field, derived
+ * investment metrics, the lifecycle timeline, GMP history and notes.
+ */
+const IpoDetail = ({
+  ipo,
+  id,
+  history,
+  trend,
+  watched,
+  toggleWatchlist,
+  annotation,
+  annotate,
+  knownTags,
+  backTo,
+}: {
+  ipo: Ipo | undefined;
+  // From the URL, for the not-found message
+  id: string;
+  history: GmpHistoryPoint[];
+  trend: GmpTrendData | undefined;
+  watched: boolean;
+  toggleWatchlist: VoidFunction;
+  annotation: IpoAnnotation | undefined;
+  annotate: (annotation: Pick<IpoAnnotation, "note" | "tags">) => void;
+  knownTags: string[];
+  // The dashboard with its search, sort and filters
+  backTo: string;
+}) => {
+  useEffect(() => {
+    if (!ipo) return;
+    const previous = document.title;
+    document.title = `${ipo.baseName} IPO GMP · ${previous}`;
+    return () => {
+      document.title = previous;
+    };
+  }, [ipo]);
+
+  const backLink = (
+    <Link
+      to={backTo}
+      className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      All IPOs
+    </Link>
+  );
+
+  if (!ipo) {
+    return (
+      <div className="p-4 space-y-4">
+        {backLink}
+        <Card className="p-6">
+          <div className="text-lg font-semibold">IPO not found</div>
+          <div className="text-sm text-muted-foreground">
+            No IPO matches “{id}” in the current data. It may have listed and
+            dropped out of the feed.
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="p-4 space-y-4"
+    >
+      {backLink}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="flex items-start gap-2">
+          <WatchButton
+            name={ipo.baseName}
+            watched={watched}
+            onToggle={toggleWatchlist}
+          />
+          <div>
+            <div className="text-xl">
+              <IPOText ipo={ipo} />
+            </div>
+            <PhaseBadge phase={lifecyclePhase(ipo, new Date())} />
+            <TagBadges tags={annotation?.tags} />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <AddToCalendarButton ipo={ipo} />
+          <ShareButton ipo={ipo} />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="p-4">
+          <CardTitle className="text-lg">Timeline</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0 px-4 pb-4">
+          <Timeline ipo={ipo} />
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-lg">Details</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 px-4 pb-4 grid grid-cols-2 gap-4">
+            <Field label="Issue Price">{formatPrice(ipo.price)}</Field>
+            <Field label="GMP">
+              <Badge variant={(ipo.gmp ?? 0) > 0 ? "default" : "secondary"}>
+                {formatPrice(ipo.gmp)}
+              </Badge>
+            </Field>
+            <Field label="Est. Listing">{ipo.estListing ?? "-"}</Field>
+            <Field label="IPO Size">{formatIPOSize(ipo.issueSize)}</Field>
+            <Field label="Lot Size">
+              {ipo.lot === null ? "-" : `${ipo.lot} shares`}
+            </Field>
+            <Field label="Subscription">
+              {ipo.subscription === null ? "-" : `${ipo.subscription}x`}
+            </Field>
+            <Field label="Segment">
+              {ipo.segment}
+              {ipo.exchange && ` (${ipo.exchange})`}
+            </Field>
+            <Field label="Status">{ipo.status ?? "-"}</Field>
+            <Field label="GMP Updated">{formatDateTime(ipo.gmpUpdated)}</Field>
+            <Field label="Listed As">
+              <span className="break-words">{ipo.name}</span>
+            </Field>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-lg">Investment</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 px-4 pb-4 grid grid-cols-2 gap-4">
+            <Field label="GMP %">{formatPercent(gmpPercent(ipo))}</Field>
+            <Field label="Est. Listing Price">
+              {formatPrice(ipo.estListingPrice)}
+            </Field>
+            <Field label="Est. Listing Gain">
+              {formatPercent(ipo.estListingPercent)}
+            </Field>
+            <Field label="Min. Investment">
+              {formatPrice(minInvestment(ipo))}
+            </Field>
+            <Field label="Est. Gain per Lot">{formatPrice(lotGain(ipo))}</Field>
+            {ipo.segment === "SME" && (
+              <Field label="SME Min. Application (2 lots)">
+                {formatPrice(smeMinApplication(ipo))}
+              </Field>
+            )}
+          </CardContent>
+        </Card>
+
+        <AllotmentCard ipo={ipo} />
+
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-lg">GMP History</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 px-4 pb-4 space-y-3">
+            <GmpTrend trend={trend} />
+            <HistoryTable points={history} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="p-4">
+            <CardTitle className="text-lg">Notes</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 px-4 pb-4">
+            {/* Keyed so a draft never carries over to another IPO's page */}
+            <NotesEditor
+              key={ipo.id}
+              annotation={annotation}
+              knownTags={knownTags}
+              onChange={annotate}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </motion.div>
+  );
+};
+
+export default IpoDetail;
@@ -1,5 +1,6 @@
 import { motion, AnimatePresence } from "framer-motion";
 import { lazy } from "react";
+import { ChevronRight } from "lucide-react";
 
 import {
   Accordion,
@@ -8,15 +9,44 @@ import {
   AccordionTrigger,
 } from "../ui/accordion";
 import {
-  decodeHTML,
+  cn,
   formatDate,
+  formatDateTime,
   formatIPOSize,
+  formatPercent,
   formatPrice,
-  parseDate,
 } from "@/lib/utils";
+import {
+  gmpPercent,
+  lotGain,
+  minInvestment,
+  smeMinApplication,
+} from "@/lib/metrics";
 import { Badge } from "../ui/badge";
 import { Card, CardContent } from "../ui/card";
-import { GmpDataItem, SearchAndControlsProps, StatsData } from "@/types";
+import GmpTrend from "../common/GmpTrend";
+import IPOText from "../common/IPOText";
+import ChangeLog from "../common/ChangeLog";
+import WatchButton from "../common/WatchButton";
+import TagBadges from "../common/TagBadges";
+import NotesEditor from "../common/NotesEditor";
+import Link from "../common/Link";
+import { ipoPath } from "@/lib/router";
+import { estimateAllotment } from "@/lib/allotment";
+import { lifecyclePhase, phaseRowClassName } from "@/lib/phase";
+import { useNow } from "@/hooks/useNow";
+import PhaseBadge from "../common/PhaseBadge";
+import AllotmentAssumptions from "../common/AllotmentAssumptions";
+import AddToCalendarButton from "../common/AddToCalendarButton";
+import { Ipo, IpoListViewProps } from "@/types";
+
+// "2.2% · ₹65": retail allotment odds and expected value per application
+const allotmentSummary = (ipo: Ipo) => {
+  const estimate = estimateAllotment(ipo);
+  return estimate
+    ? `${formatPercent(estimate.probability * 100)} · ${formatPrice(estimate.expectedValue)}`
+    : "-";
+};
 
 const Stats = lazy(() => import("../common/Stats"));
 const SearchAndControls = lazy(() => import("../common/SearchAndControls"));
@@ -35,7 +65,7 @@ const SearchAndControls = lazy(() => import("../common/SearchAndControls"));
  * The component also uses the `Accordion` component from the `@radix-ui/react-accordion`
  * library to create the accordion.
  *
- * @param {{filteredAndSortedData: GmpDataItem[]; refreshing: boolean; searchTerm: string; setSearchTerm: (value: SetStateAction<string>) => void; sortBy: SortBy; setSortBy: (value: SetStateAction<SortBy>) => void; sortOrder: "asc" | "desc"; setSortOrder: (value: SetStateAction<"asc" | "desc">) => void; statsData: StatsData; fetchData: VoidFunction}} props
+ * @param {IpoListViewProps} props
  * @returns {JSX.Element}
  */
 const MobileTable = ({
@@ -43,16 +73,36 @@ const MobileTable = ({
   refreshing,
   searchTerm,
   setSearchTerm,
-  sortBy,
-  setSortBy,
-  sortOrder,
-  setSortOrder,
+  sort,
+  setSort,
   statsData,
   fetchData,
-}: SearchAndControlsProps & {
-  filteredAndSortedData: GmpDataItem[];
-  statsData: StatsData;
-}) => {
+  dataStatus,
+  schedule,
+  filters,
+  setFilters,
+  view,
+  setView,
+  selected,
+  setSelected,
+  watchlistOnly,
+  setWatchlistOnly,
+  watchlistCount,
+  watchlist,
+  toggleWatchlist,
+  annotations,
+  annotate,
+  knownTags,
+  onExport,
+  onExportCalendar,
+  calendarFeedUrl,
+  onOpenAlerts,
+  unreadAlerts,
+  trends,
+  changeLog,
+  highlightedIds,
+}: IpoListViewProps) => {
+  const now = new Date(useNow(60000));
   return (
     <AnimatePresence>
       <motion.div
@@ -63,88 +113,188 @@ const MobileTable = ({
         <Stats statsData={statsData} key={"mobile-view-stats"} />
         <SearchAndControls
           fetchData={fetchData}
+          dataStatus={dataStatus}
+          schedule={schedule}
+          filters={filters}
+          setFilters={setFilters}
+          view={view}
+          setView={setView}
+          watchlistOnly={watchlistOnly}
+          setWatchlistOnly={setWatchlistOnly}
+          watchlistCount={watchlistCount}
+          knownTags={knownTags}
+          onExport={onExport}
+          onExportCalendar={onExportCalendar}
+          calendarFeedUrl={calendarFeedUrl}
+          onOpenAlerts={onOpenAlerts}
+          unreadAlerts={unreadAlerts}
           isMobile
           refreshing={refreshing}
           searchTerm={searchTerm}
           setSearchTerm={setSearchTerm}
-          sortBy={sortBy}
-          setSortBy={setSortBy}
-          sortOrder={sortOrder}
-          setSortOrder={setSortOrder}
+          sort={sort}
+          setSort={setSort}
           key={"mobile-view-controls"}
         />
-        <Accordion type="single" collapsible className="w-full">
+        <ChangeLog entries={changeLog} />
+        <Accordion
+          type="single"
+          collapsible
+          className="w-full"
+          value={selected ?? ""}
+          onValueChange={(value) => setSelected(value || null)}
+        >
           {filteredAndSortedData.map((item, index) => (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: index * 0.05 }}
-              key={item.ipo}
+              key={item.id}
             >
-              <AccordionItem value={item.ipo}>
-                <AccordionTrigger
-                  className={`hover:bg-accent rounded-lg p-4 ${item.classname}`}
-                >
-                  <div className="flex items-center justify-between w-full pr-4">
-                    <div className="flex flex-col items-start">
-                      <span
-                        className="font-medium text-left"
-                        title={decodeHTML(item.ipo)}
-                      >
-                        {decodeHTML(item.ipo)}
-                      </span>
-                      <span className="text-sm text-black text-opacity-60">
-                        {formatPrice(item.price)} • {item.lot} Shares
-                      </span>
-                    </div>
-                    <Badge
-                      variant={
-                        parseFloat(item.gmp) > 0 ? "default" : "secondary"
-                      }
+              <AccordionItem value={item.id}>
+                <div className="flex items-center gap-1">
+                  <WatchButton
+                    name={item.baseName}
+                    watched={watchlist.has(item.id)}
+                    onToggle={() => toggleWatchlist(item.id)}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <AccordionTrigger
+                      className={cn(
+                        "hover:bg-accent rounded-lg p-4",
+                        phaseRowClassName(item, now),
+                        highlightedIds.has(item.id) &&
+                          "ring-2 ring-inset ring-amber-400"
+                      )}
                     >
-                      {formatPrice(item.gmp)}
-                    </Badge>
+                      <div className="flex items-center justify-between w-full pr-4">
+                        <div className="flex flex-col items-start">
+                          <div className="text-left">
+                            <IPOText ipo={item} />
+                            <TagBadges tags={annotations[item.id]?.tags} />
+                          </div>
+                          <span className="text-sm text-black text-opacity-60">
+                            {formatPrice(item.price)} • {item.lot ?? "-"} Shares
+                          </span>
+                          <PhaseBadge
+                            phase={lifecyclePhase(item, now)}
+                            className="mt-1"
+                          />
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <GmpTrend trend={trends[item.id]} compact />
+                          <Badge
+                            variant={
+                              (item.gmp ?? 0) > 0 ? "default" : "secondary"
+                            }
+                          >
+                            {formatPrice(item.gmp)}
+                          </Badge>
+                        </div>
+                      </div>
+                    </AccordionTrigger>
                   </div>
-                </AccordionTrigger>
+                </div>
                 <AccordionContent>
                   <Card className="mt-2">
                     <CardContent className="grid grid-cols-2 gap-4 p-4">
                       <div>
                         <div className="text-sm font-medium mb-1">IPO Size</div>
-                        <div>{formatIPOSize(item.ipo_size)}</div>
+                        <div>{formatIPOSize(item.issueSize)}</div>
                       </div>
                       <div>
                         <div className="text-sm font-medium mb-1">
                           Est. Listing
                         </div>
-                        <div>{item.est_listing}</div>
+                        <div>
+                          {item.estListingPrice !== null
+                            ? formatPrice(item.estListingPrice)
+                            : (item.estListing ?? "-")}
+                          {item.estListingPercent !== null &&
+                            ` (${formatPercent(item.estListingPercent)})`}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-sm font-medium mb-1">GMP %</div>
+                        <div>{formatPercent(gmpPercent(item))}</div>
+                      </div>
+                      <div>
+                        <div className="text-sm font-medium mb-1">
+                          Min. Investment
+                        </div>
+                        <div>{formatPrice(minInvestment(item))}</div>
+                      </div>
+                      <div>
+                        <div className="text-sm font-medium mb-1">
+                          Gain / Lot
+                        </div>
+                        <div>{formatPrice(lotGain(item))}</div>
+                      </div>
+                      {item.segment === "SME" && (
+                        <div>
+                          <div className="text-sm font-medium mb-1">
+                            SME Min. (2 Lots)
+                          </div>
+                          <div>{formatPrice(smeMinApplication(item))}</div>
+                        </div>
+                      )}
+                      <div>
+                        <div className="text-sm font-medium mb-1 flex items-center gap-1">
+                          Allotment Odds / EV
+                          <AllotmentAssumptions />
+                        </div>
+                        <div>{allotmentSummary(item)}</div>
                       </div>
                       <div>
                         <div className="text-sm font-medium mb-1">
                           Open/Close
                         </div>
                         <div>
-                          {formatDate(parseDate(item.open))} -{" "}
-                          {formatDate(parseDate(item.close))}
+                          {formatDate(item.open)} - {formatDate(item.close)}
                         </div>
                       </div>
                       <div>
                         <div className="text-sm font-medium mb-1">
                           Listing Date
                         </div>
-                        <div>{formatDate(parseDate(item.listing))}</div>
+                        <div>{formatDate(item.listing)}</div>
                       </div>
                       <div>
                         <div className="text-sm font-medium mb-1">
                           Allotment Date
                         </div>
-                        <div>{formatDate(parseDate(item.boa_dt))}</div>
+                        <div>{formatDate(item.boaDate)}</div>
                       </div>
                       <div>
                         <div className="text-sm font-medium mb-1">
                           Last Updated
                         </div>
-                        <div>{formatDate(parseDate(item.gmp_updated))}</div>
+                        <div>{formatDateTime(item.gmpUpdated)}</div>
+                      </div>
+                      <div className="col-span-2">
+                        <div className="text-sm font-medium mb-1">
+                          GMP Trend
+                        </div>
+                        <GmpTrend trend={trends[item.id]} />
+                      </div>
+                      <div className="col-span-2 flex flex-wrap items-center justify-between gap-2">
+                        <Link
+                          to={ipoPath(item.id)}
+                          className="inline-flex items-center gap-1 text-sm font-medium text-primary hover:underline"
+                        >
+                          View full details
+                          <ChevronRight className="h-4 w-4" />
+                        </Link>
+                        <AddToCalendarButton ipo={item} />
+                      </div>
+                      <div className="col-span-2">
+                        <NotesEditor
+                          annotation={annotations[item.id]}
+                          knownTags={knownTags}
+                          onChange={(annotation) =>
+                            annotate(item.id, annotation)
+                          }
+                        />
                       </div>
                     </CardContent>
                   </Card>
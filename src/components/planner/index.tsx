@@ -0,0 +1,288 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { ArrowLeft } from "lucide-react";
+
+import { Ipo, PlanEntry, PlannerInputs, PlannerStrategy } from "@/types";
+import { formatDate, formatPrice } from "@/lib/utils";
+import {
+  PLANNER_STRATEGIES,
+  planAllocations,
+  readPlannerInputs,
+  writePlannerInputs,
+} from "@/lib/planner";
+import { ipoPath } from "@/lib/router";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Input } from "../ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import Link from "../common/Link";
+
+const MAX_ACCOUNTS = 20;
+
+const SummaryCard = ({ label, value }: { label: string; value: string }) => (
+  <Card>
+    <CardHeader className="p-4 pb-1">
+      <CardTitle className="text-sm font-medium text-muted-foreground">
+        {label}
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="px-4 pb-4">
+      <div className="text-2xl font-bold">{value}</div>
+    </CardContent>
+  </Card>
+);
+
+// Blocking window drawn against the span of the whole plan
+const WindowBar = ({
+  entry,
+  start,
+  end,
+}: {
+  entry: PlanEntry;
+  start: number;
+  end: number;
+}) => {
+  const span = end - start || 1;
+  const from = entry.from.getTime();
+  const until = entry.until?.getTime() ?? end;
+  return (
+    <div className="relative h-2 w-32 rounded-full bg-muted">
+      <div
+        className="absolute inset-y-0 rounded-full bg-primary"
+        style={{
+          left: `${((from - start) / span) * 100}%`,
+          width: `${Math.max(((until - from) / span) * 100, 2)}%`,
+        }}
+      />
+    </div>
+  );
+};
+
+/**
+ * Capital planner at `/planner`: proposes bids across open and upcoming
+ * IPOs for a given amount and number of accounts, reusing money once it is
+ * unblocked after allotment.
+ */
+const Planner = ({
+  ipos,
+  backTo,
+}: {
+  ipos: Ipo[];
+  // The dashboard with its search, sort and filters
+  backTo: string;
+}) => {
+  const [inputs, setInputs] = useState<PlannerInputs>(readPlannerInputs);
+
+  const update = (patch: Partial<PlannerInputs>) => {
+    const next = { ...inputs, ...patch };
+    writePlannerInputs(next);
+    setInputs(next);
+  };
+
+  const plan = useMemo(
+    () => planAllocations(ipos, inputs, new Date()),
+    [ipos, inputs]
+  );
+
+  const start = Math.min(...plan.entries.map(({ from }) => from.getTime()));
+  const end = Math.max(
+    ...plan.entries.map(({ from, until }) => (until ?? from).getTime())
+  );
+  const strategy = PLANNER_STRATEGIES.find(
+    ({ value }) => value === inputs.strategy
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="p-4 space-y-4"
+    >
+      <Link
+        to={backTo}
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        All IPOs
+      </Link>
+      <h1 className="text-2xl font-semibold">Capital Planner</h1>
+
+      <Card className="p-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="text-sm font-medium">
+            Capital (₹)
+            <Input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              step={1000}
+              value={inputs.capital}
+              onChange={(e) =>
+                update({ capital: Math.max(0, Number(e.target.value) || 0) })
+              }
+              className="mt-1"
+            />
+          </label>
+          <label className="text-sm font-medium">
+            Applicant accounts (PAN)
+            <Input
+              type="number"
+              inputMode="numeric"
+              min={1}
+              max={MAX_ACCOUNTS}
+              value={inputs.accounts}
+              onChange={(e) =>
+                update({
+                  accounts: Math.min(
+                    MAX_ACCOUNTS,
+                    Math.max(1, Math.floor(Number(e.target.value)) || 1)
+                  ),
+                })
+              }
+              className="mt-1"
+            />
+          </label>
+          <div className="text-sm font-medium">
+            Category
+            <Select
+              value={inputs.strategy}
+              onValueChange={(value) =>
+                update({ strategy: value as PlannerStrategy })
+              }
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PLANNER_STRATEGIES.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {strategy && (
+          <p className="mt-3 text-sm text-muted-foreground">
+            {strategy.description}
+          </p>
+        )}
+      </Card>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <SummaryCard label="IPOs planned" value={String(plan.entries.length)} />
+        <SummaryCard
+          label="Peak blocked"
+          value={formatPrice(plan.peakBlocked)}
+        />
+        <SummaryCard
+          label="Idle at peak"
+          value={formatPrice(Math.max(0, inputs.capital - plan.peakBlocked))}
+        />
+        <SummaryCard
+          label="Expected gain"
+          value={formatPrice(plan.expectedGain)}
+        />
+      </div>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>IPO</TableHead>
+              <TableHead>Lots / Account</TableHead>
+              <TableHead>Accounts</TableHead>
+              <TableHead>Blocked</TableHead>
+              <TableHead>Blocked From</TableHead>
+              <TableHead>Unblocked By</TableHead>
+              <TableHead>Window</TableHead>
+              <TableHead>Expected Gain</TableHead>
+              <TableHead>Gain if Allotted</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {plan.entries.length === 0 && (
+              <TableRow>
+                <TableCell
+                  colSpan={9}
+                  className="text-center text-muted-foreground"
+                >
+                  No open or upcoming IPO fits this budget.
+                </TableCell>
+              </TableRow>
+            )}
+            {plan.entries.map((entry) => (
+              <TableRow key={entry.ipo.id}>
+                <TableCell className="font-medium">
+                  <Link to={ipoPath(entry.ipo.id)} className="hover:underline">
+                    {entry.ipo.baseName}
+                  </Link>
+                </TableCell>
+                <TableCell>{entry.lotsPerAccount}</TableCell>
+                <TableCell>{entry.applicants}</TableCell>
+                <TableCell>{formatPrice(entry.blocked)}</TableCell>
+                <TableCell>{formatDate(entry.from)}</TableCell>
+                <TableCell>
+                  {entry.until ? formatDate(entry.until) : "Unknown"}
+                </TableCell>
+                <TableCell>
+                  <WindowBar entry={entry} start={start} end={end} />
+                </TableCell>
+                <TableCell>
+                  {entry.expectedGain === null ? (
+                    <span title="Needs the subscription figure">-</span>
+                  ) : (
+                    formatPrice(entry.expectedGain)
+                  )}
+                </TableCell>
+                <TableCell>{formatPrice(entry.gainIfAllotted)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {plan.skipped.length > 0 && (
+        <Card className="p-4">
+          <div className="text-sm font-medium mb-2">Not planned</div>
+          <ul className="space-y-1 text-sm text-muted-foreground">
+            {plan.skipped.map(({ ipo, reason }) => (
+              <li key={ipo.id}>
+                <Link to={ipoPath(ipo.id)} className="hover:underline">
+                  {ipo.baseName}
+                </Link>
+                : {reason}
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Money is assumed blocked from the later of today and the open date until
+        the end of the allotment day. Expected gain is the allotment odds from
+        the current subscription times the current GMP on what a winner gets:
+        the full bid when undersubscribed, otherwise one minimum bid of the
+        category. Small HNI odds use the overall subscription too. IPOs without
+        a subscription figure yet add nothing to the expected total; their gain
+        if allotted is the full bid.
+      </p>
+    </motion.div>
+  );
+};
+
+export default Planner;
@@ -0,0 +1,355 @@
+import { lazy, useState } from "react";
+import { motion } from "framer-motion";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+import { DashboardViewProps, Ipo } from "@/types";
+import { cn, formatDate, formatPercent, formatPrice } from "@/lib/utils";
+import { startOfIstDay, toIstIsoDate } from "@/lib/dates";
+import {
+  addDays,
+  addMonths,
+  daysBetween,
+  formatDay,
+  startOfWeek,
+} from "@/lib/calendar";
+import { gmpPercent } from "@/lib/metrics";
+import { ipoPath } from "@/lib/router";
+import { useNow } from "@/hooks/useNow";
+import { Card } from "../ui/card";
+import ChangeLog from "../common/ChangeLog";
+import Link from "../common/Link";
+
+const Stats = lazy(() => import("../common/Stats"));
+const SearchAndControls = lazy(() => import("../common/SearchAndControls"));
+
+type Zoom = "week" | "month";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bar colors by GMP %, best first; IPOs without a GMP are grey
+const GMP_BANDS: { min: number; label: string; className: string }[] = [
+  { min: 30, label: "≥ 30%", className: "bg-green-600" },
+  { min: 10, label: "10–30%", className: "bg-green-400" },
+  { min: 0, label: "0–10%", className: "bg-amber-400" },
+  { min: -Infinity, label: "< 0%", className: "bg-red-400" },
+];
+const NO_GMP_CLASS = "bg-slate-300";
+
+const barClassName = (ipo: Ipo) => {
+  const percent = gmpPercent(ipo);
+  return percent === null
+    ? NO_GMP_CLASS
+    : (GMP_BANDS.find(({ min }) => percent >= min) as (typeof GMP_BANDS)[0])
+        .className;
+};
+
+// Start day and length in days of the visible window
+const windowFor = (zoom: Zoom, anchor: string) => {
+  if (zoom === "week") return { start: startOfWeek(anchor), days: 7 };
+  const start = `${anchor.slice(0, 7)}-01`;
+  return { start, days: daysBetween(start, addMonths(start, 1)) };
+};
+
+const Legend = () => (
+  <div className="flex flex-wrap items-center gap-3 text-xs">
+    <span className="font-medium">GMP %</span>
+    {GMP_BANDS.map(({ label, className }) => (
+      <span key={label} className="inline-flex items-center gap-1">
+        <span className={cn("h-2.5 w-4 rounded-sm", className)} />
+        {label}
+      </span>
+    ))}
+    <span className="inline-flex items-center gap-1">
+      <span className={cn("h-2.5 w-4 rounded-sm", NO_GMP_CLASS)} />
+      No GMP
+    </span>
+    <span className="inline-flex items-center gap-1">
+      <span className="h-2.5 w-4 rounded-sm bg-slate-400 opacity-40" />
+      Funds unblocked, awaiting listing
+    </span>
+    <span className="inline-flex items-center gap-1">
+      <span className="h-2.5 w-0.5 bg-foreground" /> Close
+    </span>
+    <span className="inline-flex items-center gap-1">
+      <span className="h-2 w-2 rounded-full border border-foreground bg-background" />
+      Allotment
+    </span>
+    <span className="inline-flex items-center gap-1">
+      <span className="h-3 w-0.5 bg-red-500" /> Now
+    </span>
+  </div>
+);
+
+/**
+ * One IPO's bar. The solid part runs from open to allotment, while bid
+ * money is blocked; the faded rest runs on to listing. Positions are in
+ * percent of the window, and parts outside it are clipped by the track.
+ */
+const Bar = ({
+  ipo,
+  start,
+  days,
+}: {
+  ipo: Ipo;
+  start: string;
+  days: number;
+}) => {
+  const open = toIstIsoDate(ipo.open as Date);
+  // Until the listing date is known the bar ends after the close day
+  const endDay = ipo.listing ?? ipo.close;
+  const end = endDay ? addDays(toIstIsoDate(endDay), 1) : addDays(open, 1);
+  const blockedEnd = ipo.boaDate ? addDays(toIstIsoDate(ipo.boaDate), 1) : end;
+
+  const at = (day: string) => (daysBetween(start, day) / days) * 100;
+  const markerAt = (date: Date) => at(toIstIsoDate(date)) + 50 / days;
+  const percent = gmpPercent(ipo);
+
+  return (
+    <div
+      className="absolute inset-y-1"
+      style={{ left: `${at(open)}%`, width: `${at(end) - at(open)}%` }}
+      title={[
+        ipo.baseName,
+        `Open ${formatDate(ipo.open)} → close ${formatDate(ipo.close)}`,
+        `Allotment ${formatDate(ipo.boaDate)}, listing ${formatDate(ipo.listing)}`,
+        `GMP ${formatPrice(ipo.gmp)} (${formatPercent(percent)})`,
+      ].join("\n")}
+    >
+      <div className="relative h-full">
+        <div
+          className={cn(
+            "absolute inset-y-0 left-0 rounded-l-sm",
+            barClassName(ipo),
+            blockedEnd === end && "rounded-r-sm"
+          )}
+          style={{
+            width: `${(daysBetween(open, blockedEnd) / daysBetween(open, end)) * 100}%`,
+          }}
+        />
+        {blockedEnd !== end && (
+          <div
+            className={cn(
+              "absolute inset-y-0 right-0 rounded-r-sm opacity-40",
+              barClassName(ipo),
+              !ipo.listing && "border-r-2 border-dashed border-foreground"
+            )}
+            style={{
+              width: `${(daysBetween(blockedEnd, end) / daysBetween(open, end)) * 100}%`,
+            }}
+          />
+        )}
+      </div>
+      {/* Markers sit in the middle of their day */}
+      {[
+        { date: ipo.close, className: "inset-y-0 w-0.5 bg-foreground" },
+        {
+          date: ipo.boaDate,
+          className:
+            "top-1/2 h-2 w-2 -translate-y-1/2 rounded-full border border-foreground bg-background",
+        },
+      ].map(
+        ({ date, className }) =>
+          date && (
+            <span
+              key={className}
+              className={cn("absolute -translate-x-1/2", className)}
+              style={{
+                left: `${((markerAt(date) - at(open)) / (at(end) - at(open))) * 100}%`,
+              }}
+            />
+          )
+      )}
+    </div>
+  );
+};
+
+/**
+ * Gantt view of the filtered IPOs: one bar per issue from open to listing,
+ * with close and allotment markers and a line at the current time, zoomed
+ * to a week or a month. Overlapping blocked-fund windows show at a glance.
+ */
+const TimelineView = ({
+  filteredAndSortedData,
+  statsData,
+  changeLog,
+  isMobile = false,
+  ...controls
+}: DashboardViewProps) => {
+  const now = useNow(60000);
+  const today = toIstIsoDate(new Date(now));
+  const [zoom, setZoom] = useState<Zoom>("month");
+  const [anchor, setAnchor] = useState(today);
+
+  const { start, days } = windowFor(zoom, anchor);
+  const windowEnd = addDays(start, days);
+  const dayList = Array.from({ length: days }, (_, index) =>
+    addDays(start, index)
+  );
+
+  const dated = filteredAndSortedData.filter(({ open }) => open);
+  // Only IPOs whose bar touches the window
+  const visible = dated.filter((ipo) => {
+    const open = toIstIsoDate(ipo.open as Date);
+    const last = ipo.listing ?? ipo.close;
+    return open < windowEnd && (last ? toIstIsoDate(last) : open) >= start;
+  });
+
+  const startOfToday = startOfIstDay(new Date(now)).getTime();
+  const nowAt =
+    ((daysBetween(start, today) + (now - startOfToday) / DAY_MS) / days) * 100;
+
+  const step = (direction: 1 | -1) =>
+    setAnchor(
+      zoom === "month"
+        ? addMonths(anchor, direction)
+        : addDays(anchor, 7 * direction)
+    );
+
+  const title =
+    zoom === "month"
+      ? formatDay(start, { month: "long", year: "numeric" })
+      : `Week of ${formatDay(start, {
+          day: "numeric",
+          month: "short",
+          year: "numeric",
+        })}`;
+
+  const navButtonClassName =
+    "inline-flex h-8 items-center justify-center rounded-md border border-input px-2 text-sm hover:bg-accent";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="w-full p-4"
+    >
+      <Stats statsData={statsData} key={"timeline-view-stats"} />
+      <SearchAndControls
+        {...controls}
+        isMobile={isMobile}
+        key={"timeline-view-controls"}
+      />
+      <ChangeLog entries={changeLog} />
+      <Card className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => step(-1)}
+              aria-label={`Previous ${zoom}`}
+              className={navButtonClassName}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setAnchor(today)}
+              className={navButtonClassName}
+            >
+              Today
+            </button>
+            <button
+              type="button"
+              onClick={() => step(1)}
+              aria-label={`Next ${zoom}`}
+              className={navButtonClassName}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+            <h2 className="ml-2 text-lg font-semibold">{title}</h2>
+          </div>
+          <div
+            className="flex rounded-md border border-input p-0.5"
+            role="group"
+            aria-label="Zoom"
+          >
+            {(["week", "month"] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setZoom(value)}
+                aria-pressed={zoom === value}
+                className={cn(
+                  "rounded-sm px-3 py-1 text-sm capitalize",
+                  zoom === value
+                    ? "bg-accent text-accent-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+        </div>
+        <Legend />
+
+        <div className="overflow-x-auto">
+          <div className="min-w-[720px] text-sm">
+            <div className="flex border-b">
+              <div className="w-48 shrink-0" />
+              <div className="relative flex flex-1">
+                {dayList.map((day) => (
+                  <div
+                    key={day}
+                    className={cn(
+                      "flex-1 border-l py-1 text-center text-xs text-muted-foreground",
+                      day === today && "font-semibold text-foreground"
+                    )}
+                  >
+                    {zoom === "week" &&
+                      formatDay(day, { weekday: "short" }) + " "}
+                    {formatDay(day, { day: "numeric" })}
+                  </div>
+                ))}
+              </div>
+            </div>
+            {visible.length === 0 && (
+              <div className="py-6 text-center text-muted-foreground">
+                No IPO runs in this {zoom}.
+              </div>
+            )}
+            {visible.map((ipo) => (
+              <div key={ipo.id} className="flex border-b last:border-b-0">
+                <div className="w-48 shrink-0 truncate py-2 pr-2">
+                  <Link to={ipoPath(ipo.id)} className="hover:underline">
+                    {ipo.baseName}
+                  </Link>
+                </div>
+                <div className="relative h-9 flex-1 overflow-hidden">
+                  {/* Day grid */}
+                  <div className="absolute inset-0 flex">
+                    {dayList.map((day) => (
+                      <div
+                        key={day}
+                        className={cn(
+                          "flex-1 border-l",
+                          day === today && "bg-accent/50"
+                        )}
+                      />
+                    ))}
+                  </div>
+                  <Bar ipo={ipo} start={start} days={days} />
+                  {nowAt >= 0 && nowAt <= 100 && (
+                    <div
+                      className="absolute inset-y-0 w-0.5 bg-red-500"
+                      style={{ left: `${nowAt}%` }}
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Solid bars run from open to allotment, while bid money is blocked;
+          refunds and unblocking follow allotment. A dashed end means the
+          listing date isn't announced yet.
+          {dated.length < filteredAndSortedData.length &&
+            ` ${filteredAndSortedData.length - dated.length} IPO(s) without an open date are not shown.`}
+        </p>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default TimelineView;
@@ -0,0 +1,92 @@
+import { GmpDataItem } from "@/types";
+
+// Snapshot of the GMP worker payload, used by the fixture data source for
+// offline development. Strings are kept exactly as the worker returns them.
+const gmpFixture: GmpDataItem[] = [
+  {
+    ipo: "Indo Farm Equipment Open&nbsp;(Sub:29.68x)",
+    price: "215",
+    gmp: "45",
+    est_listing: "260 (20.93%)",
+    ipo_size: "&#8377;260.15",
+    lot: "69",
+    open: "31-Dec",
+    close: "2-Jan",
+    boa_dt: "3-Jan",
+    listing: "7-Jan",
+    gmp_updated: "1-Jan 19:04",
+    classname: "color-green",
+  },
+  {
+    ipo: "Technichem Organics NSE SME Open&nbsp;(Sub:10.17x)",
+    price: "55",
+    gmp: "10",
+    est_listing: "65 (18.18%)",
+    ipo_size: "&#8377;25.30",
+    lot: "2000",
+    open: "31-Dec",
+    close: "2-Jan",
+    boa_dt: "3-Jan",
+    listing: "7-Jan",
+    gmp_updated: "1-Jan 18:41",
+    classname: "color-green",
+  },
+  {
+    ipo: "Leo Dry Fruits and Spices BSE SME",
+    price: "52",
+    gmp: "-",
+    est_listing: "52 (0.00%)",
+    ipo_size: "&#8377;25.12",
+    lot: "2000",
+    open: "1-Jan",
+    close: "3-Jan",
+    boa_dt: "6-Jan",
+    listing: "8-Jan",
+    gmp_updated: "1-Jan 09:12",
+    classname: null,
+  },
+  {
+    ipo: "Unimech Aerospace Close&nbsp;(Sub:175.31x)",
+    price: "785",
+    gmp: "430",
+    est_listing: "1215 (54.78%)",
+    ipo_size: "&#8377;500.00",
+    lot: "19",
+    open: "23-Dec",
+    close: "26-Dec",
+    boa_dt: "27-Dec",
+    listing: "31-Dec",
+    gmp_updated: "30-Dec 22:15",
+    classname: "color-antiquewhite",
+  },
+  {
+    ipo: "Citichem India NSE SME Close&nbsp;(Sub:166.16x)",
+    price: "70",
+    gmp: "-2",
+    est_listing: "68 (-2.86%)",
+    ipo_size: "&#8377;12.60",
+    lot: "2000",
+    open: "27-Dec",
+    close: "31-Dec",
+    boa_dt: "1-Jan",
+    listing: "3-Jan",
+    gmp_updated: "1-Jan 17:30",
+    classname: "color-antiquewhite",
+  },
+  {
+    ipo: "Standard Glass Lining Technology",
+    price: "--",
+    gmp: "--",
+    est_listing: "--",
+    ipo_size: "--",
+    lot: "--",
+    open: "6-Jan",
+    close: "8-Jan",
+    boa_dt: "9-Jan",
+    listing: "13-Jan",
+    gmp_updated: "1-Jan 11:20",
+    classname: null,
+  },
+];
+
+export default gmpFixture;
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AlertNotification, AlertRule, Ipo } from "@/types";
+import {
+  appendToLog,
+  evaluateAlerts,
+  notificationsSupported,
+  readAlertLog,
+  readAlertRules,
+  showNotification,
+  unseenAlerts,
+  writeAlertLog,
+  writeAlertRules,
+} from "@/lib/alerts";
+import { ipoPath, navigate } from "@/lib/router";
+
+type Permission = NotificationPermission | "unsupported";
+
+const currentPermission = (): Permission =>
+  notificationsSupported() ? Notification.permission : "unsupported";
+
+/**
+ * Alert rules, their delivery history and the notification permission.
+ * `evaluate` is stable so it can run from the refresh callback; it reads
+ * the latest rules and watchlist through refs.
+ */
+export const useAlerts = (watchlist: Set<string>) => {
+  const [rules, setRulesState] = useState<AlertRule[]>(readAlertRules);
+  const [log, setLog] = useState<AlertNotification[]>(readAlertLog);
+  const [permission, setPermission] = useState<Permission>(currentPermission);
+
+  const rulesRef = useRef(rules);
+  const watchlistRef = useRef(watchlist);
+  const logRef = useRef(log);
+  useEffect(() => {
+    rulesRef.current = rules;
+    watchlistRef.current = watchlist;
+    logRef.current = log;
+  }, [rules, watchlist, log]);
+
+  const updateLog = useCallback((next: AlertNotification[]) => {
+    logRef.current = next;
+    writeAlertLog(next);
+    setLog(next);
+  }, []);
+
+  const setRules = (next: AlertRule[]) => {
+    writeAlertRules(next);
+    setRulesState(next);
+  };
+
+  const evaluate = useCallback(
+    (previous: Ipo[] | null, next: Ipo[]) => {
+      const now = new Date();
+      const fresh = unseenAlerts(
+        evaluateAlerts(
+          rulesRef.current,
+          previous,
+          next,
+          now,
+          watchlistRef.current
+        ),
+        logRef.current
+      );
+      if (!fresh.length) return;
+
+      updateLog(appendToLog(logRef.current, fresh, now));
+      for (const alert of fresh) {
+        const path = ipoPath(alert.ipoId);
+        showNotification(alert, `${window.location.origin}${path}`, () =>
+          navigate(path)
+        ).then((shown) => {
+          // Revoked permission shows up in the drawer's notice
+          if (!shown) setPermission(currentPermission());
+        });
+      }
+    },
+    [updateLog]
+  );
+
+  const requestPermission = async () => {
+    if (!notificationsSupported()) return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  return {
+    rules,
+    setRules,
+    log,
+    unread: log.filter(({ read }) => !read).length,
+    // Entries stay in the log, which is what keeps alerts from repeating
+    markAllRead: () =>
+      updateLog(log.map((entry) => ({ ...entry, read: true }))),
+    permission,
+    requestPermission,
+    evaluate,
+  };
+};
@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Returns the current timestamp, re-rendering the caller every `intervalMs`.
+ * Used for relative times ("5 min ago") and countdowns.
+ */
+export const useNow = (intervalMs = 30000): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(intervalId);
+  }, [intervalMs]);
+
+  return now;
+};
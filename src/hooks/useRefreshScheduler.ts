@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import { refreshDelay } from "@/lib/scheduler";
+
+/**
+ * Schedules automatic refreshes `refreshDelay` after the last attempt.
+ *
+ * Polling pauses while the tab is hidden or a refresh is running, and a
+ * refresh fires as soon as the tab becomes visible again. Returns when the
+ * next refresh is due, or null while paused.
+ */
+export const useRefreshScheduler = ({
+  refresh,
+  refreshing,
+  lastAttemptAt,
+  intervalMs,
+  anyIpoOpen,
+}: {
+  refresh: VoidFunction;
+  refreshing: boolean;
+  lastAttemptAt: number | null;
+  intervalMs: number;
+  anyIpoOpen: boolean;
+}): number | null => {
+  const [hidden, setHidden] = useState(() => document.hidden);
+  const [nextRefreshAt, setNextRefreshAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      setHidden(document.hidden);
+      if (!document.hidden) refresh();
+    };
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, [refresh]);
+
+  useEffect(() => {
+    if (hidden || refreshing || lastAttemptAt === null) {
+      setNextRefreshAt(null);
+      return;
+    }
+    const dueAt =
+      lastAttemptAt + refreshDelay(intervalMs, new Date(), anyIpoOpen);
+    setNextRefreshAt(dueAt);
+    const timeoutId = setTimeout(refresh, Math.max(0, dueAt - Date.now()));
+    return () => clearTimeout(timeoutId);
+  }, [hidden, refreshing, lastAttemptAt, intervalMs, anyIpoOpen, refresh]);
+
+  return nextRefreshAt;
+};
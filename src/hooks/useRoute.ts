@@ -0,0 +1,12 @@
+import { useEffect, useState } from "react";
+import { Route } from "@/types";
+import { currentRoute, onRouteChange } from "@/lib/router";
+
+// The route for the current URL, updated on navigation and back/forward
+export const useRoute = (): Route => {
+  const [route, setRoute] = useState(currentRoute);
+
+  useEffect(() => onRouteChange(() => setRoute(currentRoute())), []);
+
+  return route;
+};
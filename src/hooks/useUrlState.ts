@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { UpdateViewStateOptions, ViewState } from "@/types";
+import { readViewState, writeViewState } from "@/lib/urlState";
+import { currentRoute, onRouteChange } from "@/lib/router";
+
+const onDashboard = () => currentRoute().name === "dashboard";
+
+/**
+ * View state mirrored in the URL query string. Updates push a history
+ * entry (or replace the current one), and in-app navigation and
+ * back/forward restore the state from the URL.
+ *
+ * Also returns the path of the dashboard as last seen, query included, for
+ * links back to it from the detail and planner pages.
+ */
+export const useUrlState = () => {
+  const [state, setState] = useState<ViewState>(() =>
+    readViewState(window.location.search)
+  );
+  // Lets several updates in one event build on each other
+  const latest = useRef(state);
+  const [dashboardSearch, setDashboardSearch] = useState(() =>
+    onDashboard() ? window.location.search : ""
+  );
+
+  useEffect(
+    () =>
+      onRouteChange(() => {
+        latest.current = readViewState(window.location.search);
+        setState(latest.current);
+        if (onDashboard()) setDashboardSearch(window.location.search);
+      }),
+    []
+  );
+
+  const update = useCallback(
+    (
+      patch: Partial<ViewState>,
+      { replace = false }: UpdateViewStateOptions = {}
+    ) => {
+      const next = { ...latest.current, ...patch };
+      latest.current = next;
+      const search = writeViewState(next);
+      if (search !== window.location.search) {
+        const url = `${window.location.pathname}${search}${window.location.hash}`;
+        if (replace) window.history.replaceState(null, "", url);
+        else window.history.pushState(null, "", url);
+      }
+      setState(next);
+      if (onDashboard()) setDashboardSearch(search);
+    },
+    []
+  );
+
+  return [state, update, `/${dashboardSearch}`] as const;
+};
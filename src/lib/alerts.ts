@@ -0,0 +1,241 @@
+import { AlertNotification, AlertRule, AlertRuleKind, Ipo } from "@/types";
+import { addDays } from "./calendar";
+import { toIstIsoDate } from "./dates";
+import { isTakingBids, lifecyclePhase } from "./phase";
+import { gmpPercent } from "./metrics";
+import { formatDate, formatPercent, formatPrice } from "./utils";
+import { readStorage, writeStorage } from "./storage";
+
+const RULES_KEY = "alert-rules";
+const RULES_VERSION = 1;
+const LOG_KEY = "alert-log";
+const LOG_VERSION = 1;
+
+// The history doubles as the de-duplication record, so keep it long
+// enough that an alert can't come back while its IPO is still current
+const MAX_ALERT_LOG = 200;
+const LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const NOTIFICATION_ICON = "/web-app-manifest-192x192.png";
+
+export const ALERT_RULE_KINDS: { kind: AlertRuleKind; label: string }[] = [
+  { kind: "gmp-crosses", label: "GMP crosses a price" },
+  { kind: "opens-with-gmp-percent", label: "An IPO opens with GMP % above" },
+  { kind: "closes-today", label: "An IPO closes today" },
+  { kind: "listing-tomorrow", label: "An IPO lists tomorrow" },
+];
+
+export const readAlertRules = (): AlertRule[] =>
+  readStorage<AlertRule[]>(RULES_KEY, RULES_VERSION) ?? [];
+
+export const writeAlertRules = (rules: AlertRule[]) =>
+  writeStorage(RULES_KEY, RULES_VERSION, rules);
+
+export const readAlertLog = (): AlertNotification[] =>
+  readStorage<AlertNotification[]>(LOG_KEY, LOG_VERSION) ?? [];
+
+export const writeAlertLog = (log: AlertNotification[]) =>
+  writeStorage(LOG_KEY, LOG_VERSION, log);
+
+export const newAlertRuleId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// "GMP of Acme rises above ₹50", for the rule list
+export const describeRule = (rule: AlertRule, ipos: Ipo[]): string => {
+  const scope = (watchlistOnly: boolean) =>
+    watchlistOnly ? "A watched IPO" : "Any IPO";
+  switch (rule.kind) {
+    case "gmp-crosses": {
+      const name =
+        rule.ipoId === null
+          ? "any IPO"
+          : (ipos.find(({ id }) => id === rule.ipoId)?.baseName ?? rule.ipoId);
+      return `GMP of ${name} ${
+        rule.direction === "above" ? "rises above" : "falls below"
+      } ${formatPrice(rule.threshold)}`;
+    }
+    case "opens-with-gmp-percent":
+      return `An IPO opens with GMP above ${formatPercent(rule.threshold)}`;
+    case "closes-today":
+      return `${scope(rule.watchlistOnly)} closes today`;
+    case "listing-tomorrow":
+      return `${scope(rule.watchlistOnly)} lists tomorrow`;
+  }
+};
+
+const gmpSummary = (ipo: Ipo) =>
+  `GMP ${formatPrice(ipo.gmp)} (${formatPercent(gmpPercent(ipo))})`;
+
+/**
+ * Alerts the enabled rules raise for a refresh. GMP crossings compare with
+ * the previous snapshot, so nothing fires for an IPO seen for the first
+ * time; the other rules look at the current data only and rely on the keys
+ * for de-duplication (`unseenAlerts`).
+ */
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  previous: Ipo[] | null,
+  next: Ipo[],
+  now: Date,
+  watchlist: Set<string>
+): AlertNotification[] => {
+  const today = toIstIsoDate(now);
+  const tomorrow = addDays(today, 1);
+  const before = new Map(previous?.map((ipo) => [ipo.id, ipo]));
+
+  const alert = (
+    rule: AlertRule,
+    ipo: Ipo,
+    key: string,
+    title: string,
+    body: string
+  ): AlertNotification => ({
+    key: `${rule.id}:${ipo.id}:${key}`,
+    ruleId: rule.id,
+    ipoId: ipo.id,
+    title,
+    body,
+    at: now.getTime(),
+    read: false,
+  });
+
+  return rules
+    .filter(({ enabled }) => enabled)
+    .flatMap((rule) =>
+      next.flatMap((ipo): AlertNotification[] => {
+        switch (rule.kind) {
+          case "gmp-crosses": {
+            if (rule.ipoId !== null && rule.ipoId !== ipo.id) return [];
+            const from = before.get(ipo.id)?.gmp ?? null;
+            const to = ipo.gmp;
+            if (from === null || to === null) return [];
+            const crossed =
+              rule.direction === "above"
+                ? from < rule.threshold && to >= rule.threshold
+                : from > rule.threshold && to <= rule.threshold;
+            // Once a day, so a GMP hovering at the threshold doesn't spam
+            return crossed
+              ? [
+                  alert(
+                    rule,
+                    ipo,
+                    today,
+                    `${ipo.baseName}: GMP ${
+                      rule.direction === "above" ? "above" : "below"
+                    } ${formatPrice(rule.threshold)}`,
+                    `GMP moved from ${formatPrice(from)} to ${formatPrice(to)}.`
+                  ),
+                ]
+              : [];
+          }
+          case "opens-with-gmp-percent": {
+            const percent = gmpPercent(ipo);
+            return isTakingBids(lifecyclePhase(ipo, now)) &&
+              percent !== null &&
+              percent > rule.threshold
+              ? [
+                  alert(
+                    rule,
+                    ipo,
+                    "open",
+                    `${ipo.baseName} is open`,
+                    `${gmpSummary(ipo)}. Closes ${formatDate(ipo.close)}.`
+                  ),
+                ]
+              : [];
+          }
+          case "closes-today":
+            if (rule.watchlistOnly && !watchlist.has(ipo.id)) return [];
+            return ipo.close && toIstIsoDate(ipo.close) === today
+              ? [
+                  alert(
+                    rule,
+                    ipo,
+                    today,
+                    `${ipo.baseName} closes today`,
+                    `Last day to bid. ${gmpSummary(ipo)}.`
+                  ),
+                ]
+              : [];
+          case "listing-tomorrow":
+            if (rule.watchlistOnly && !watchlist.has(ipo.id)) return [];
+            return ipo.listing && toIstIsoDate(ipo.listing) === tomorrow
+              ? [
+                  alert(
+                    rule,
+                    ipo,
+                    tomorrow,
+                    `${ipo.baseName} lists tomorrow`,
+                    `${gmpSummary(ipo)}, est. listing ${ipo.estListing ?? "-"}.`
+                  ),
+                ]
+              : [];
+        }
+      })
+    );
+};
+
+// Drops alerts already in the history
+export const unseenAlerts = (
+  alerts: AlertNotification[],
+  log: AlertNotification[]
+) => {
+  const seen = new Set(log.map(({ key }) => key));
+  return alerts.filter(({ key }) => !seen.has(key));
+};
+
+// Newest first, without entries past the retention window
+export const appendToLog = (
+  log: AlertNotification[],
+  alerts: AlertNotification[],
+  now: Date
+) =>
+  [...alerts, ...log]
+    .filter(({ at }) => at > now.getTime() - LOG_RETENTION_MS)
+    .slice(0, MAX_ALERT_LOG);
+
+export const notificationsSupported = () => typeof Notification !== "undefined";
+
+/**
+ * Shows a system notification when permission is granted. Pages on Android
+ * can't construct `Notification`, so that goes through the service worker,
+ * which also handles the click there.
+ *
+ * Never rejects: resolves to whether the notification was shown. It fails
+ * when permission was revoked since the page loaded or no service worker is
+ * active; the alert is in the drawer's history either way.
+ */
+export const showNotification = async (
+  { key, title, body }: AlertNotification,
+  url: string,
+  onClick: VoidFunction
+): Promise<boolean> => {
+  if (!notificationsSupported() || Notification.permission !== "granted") {
+    return false;
+  }
+  const options: NotificationOptions = {
+    body,
+    // The OS replaces rather than stacks a notification with the same tag
+    tag: key,
+    icon: NOTIFICATION_ICON,
+    data: { url },
+  };
+  try {
+    const notification = new Notification(title, options);
+    notification.onclick = () => {
+      window.focus();
+      onClick();
+      notification.close();
+    };
+    return true;
+  } catch {
+    try {
+      const registration = await navigator.serviceWorker?.getRegistration();
+      if (!registration) return false;
+      await registration.showNotification(title, options);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+};
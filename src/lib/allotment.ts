@@ -0,0 +1,60 @@
+import { AllotmentEstimate, Ipo } from "@/types";
+import { readStorage, writeStorage } from "./storage";
+
+const COLUMN_KEY = "show-allotment-column";
+const COLUMN_VERSION = 1;
+
+// Share of the issue reserved for retail individual investors
+export const RETAIL_SHARE = 0.35;
+
+// Shown next to every estimate; the model is deliberately simple
+export const ALLOTMENT_ASSUMPTIONS = [
+  "The retail book is subscribed at the overall multiple the feed reports.",
+  `Retail investors get ${RETAIL_SHARE * 100}% of the issue.`,
+  "Every retail application is for the minimum bid, and oversubscribed books are allotted by lottery, one minimum bid per winner. Larger bids make the real odds better.",
+  "Expected value is the probability times the GMP on one minimum bid, before taxes and fees.",
+];
+
+// Plain-text version for `title` tooltips
+export const ALLOTMENT_TOOLTIP = [
+  "Rough estimate. Assumes:",
+  ...ALLOTMENT_ASSUMPTIONS.map((line) => `• ${line}`),
+].join("\n");
+
+export const readShowAllotmentColumn = (): boolean =>
+  readStorage<boolean>(COLUMN_KEY, COLUMN_VERSION) ?? false;
+
+export const writeShowAllotmentColumn = (show: boolean) =>
+  writeStorage(COLUMN_KEY, COLUMN_VERSION, show);
+
+/**
+ * Approximate retail allotment odds for one minimum application, from the
+ * subscription multiple (see `ALLOTMENT_ASSUMPTIONS`). Null until the
+ * feed reports a subscription.
+ *
+ * Issue size, price and lot size give the number of minimum bids the
+ * retail book can allot; with every applicant bidding the minimum, the
+ * odds are that number over the applications, i.e. 1 / subscription.
+ */
+export const estimateAllotment = (ipo: Ipo): AllotmentEstimate | null => {
+  const { subscription, issueSize, price, lot, gmp, segment } = ipo;
+  if (subscription === null || subscription <= 0) return null;
+
+  // SME minimum bids are two lots
+  const minLots = segment === "SME" ? 2 : 1;
+  const sharesPerBid = lot === null ? null : lot * minLots;
+  const retailBids =
+    issueSize === null || !price || !sharesPerBid
+      ? null
+      : Math.floor((issueSize * 1e7 * RETAIL_SHARE) / price / sharesPerBid);
+
+  const probability = Math.min(1, 1 / subscription);
+  return {
+    probability,
+    expectedValue:
+      gmp === null || sharesPerBid === null
+        ? null
+        : probability * gmp * sharesPerBid,
+    retailBids,
+  };
+};
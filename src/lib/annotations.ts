@@ -0,0 +1,61 @@
+import { Annotations, IpoAnnotation } from "@/types";
+import { readStorage, writeStorage } from "./storage";
+
+const ANNOTATIONS_KEY = "annotations";
+const ANNOTATIONS_VERSION = 1;
+
+export const MAX_TAG_LENGTH = 32;
+
+export const readAnnotations = (): Annotations =>
+  readStorage<Annotations>(ANNOTATIONS_KEY, ANNOTATIONS_VERSION) ?? {};
+
+export const writeAnnotations = (annotations: Annotations) =>
+  writeStorage(ANNOTATIONS_KEY, ANNOTATIONS_VERSION, annotations);
+
+// Trims and collapses whitespace; null when nothing is left
+export const normalizeTag = (tag: string): string | null => {
+  const normalized = tag.trim().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH);
+  return normalized || null;
+};
+
+// Tags compare case-insensitively, the first spelling wins
+const dedupeTags = (tags: string[]) => {
+  const seen = new Set<string>();
+  return tags.filter((tag) => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Returns the annotations with the note and tags of `id` replaced. An IPO
+ * left with neither a note nor tags is removed, so the store only holds
+ * IPOs the user actually annotated.
+ */
+export const setAnnotation = (
+  annotations: Annotations,
+  id: string,
+  { note, tags }: Pick<IpoAnnotation, "note" | "tags">
+): Annotations => {
+  const rest = { ...annotations };
+  delete rest[id];
+  const cleanTags = dedupeTags(tags.flatMap((tag) => normalizeTag(tag) ?? []));
+  if (!note.trim() && !cleanTags.length) return rest;
+  return {
+    ...rest,
+    [id]: { note, tags: cleanTags, updatedAt: Date.now() },
+  };
+};
+
+// Every tag in use, sorted for display
+export const allTags = (annotations: Annotations): string[] =>
+  dedupeTags(Object.values(annotations).flatMap(({ tags }) => tags)).sort(
+    (a, b) => a.localeCompare(b)
+  );
+
+export const hasAnyTag = (tags: string[], wanted: string[]) =>
+  wanted.some((tag) =>
+    tags.some((own) => own.toLowerCase() === tag.toLowerCase())
+  );
@@ -0,0 +1,16 @@
+/**
+ * The GMP endpoint for a given Vite env. Kept free of imports so that
+ * vite.config.ts can bake the same URL into the service worker.
+ */
+
+export const DEFAULT_API_URL =
+  "https://gmp-extractor.khatriutsav63.workers.dev/";
+
+// The URL the HTTP data source fetches, or null for the fixture source
+export const resolveApiUrl = (env: {
+  VITE_DATA_SOURCE?: string;
+  VITE_GMP_API_URL?: string;
+}): string | null => {
+  if (env.VITE_DATA_SOURCE === "fixture") return null;
+  return env.VITE_GMP_API_URL || DEFAULT_API_URL;
+};
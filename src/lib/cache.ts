@@ -0,0 +1,18 @@
+import { CachedSnapshot } from "@/types";
+import { readStorage, writeStorage } from "./storage";
+
+const SNAPSHOT_KEY = "snapshot";
+// Bump when the shape of CachedSnapshot or GmpDataItem changes
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Returns the last successfully fetched payload, if any. Raw rows are cached
+ * rather than normalized IPOs so dates can be re-inferred from `fetchedAt`.
+ */
+export const readCachedSnapshot = (): CachedSnapshot | null => {
+  const snapshot = readStorage<CachedSnapshot>(SNAPSHOT_KEY, SNAPSHOT_VERSION);
+  return snapshot && Array.isArray(snapshot.data) ? snapshot : null;
+};
+
+export const writeCachedSnapshot = (snapshot: CachedSnapshot) =>
+  writeStorage(SNAPSHOT_KEY, SNAPSHOT_VERSION, snapshot);
@@ -0,0 +1,123 @@
+import { CalendarEvent, CalendarEventKind, Ipo } from "@/types";
+import { toIstIsoDate } from "./dates";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CALENDAR_EVENT_KINDS: {
+  kind: CalendarEventKind;
+  label: string;
+  field: "open" | "close" | "boaDate" | "listing";
+  className: string;
+}[] = [
+  {
+    kind: "open",
+    label: "Opens",
+    field: "open",
+    className: "bg-green-100 text-green-900 border-green-300",
+  },
+  {
+    kind: "close",
+    label: "Closes",
+    field: "close",
+    className: "bg-amber-100 text-amber-900 border-amber-300",
+  },
+  {
+    kind: "allotment",
+    label: "Allotment",
+    field: "boaDate",
+    className: "bg-blue-100 text-blue-900 border-blue-300",
+  },
+  {
+    kind: "listing",
+    label: "Listing",
+    field: "listing",
+    className: "bg-purple-100 text-purple-900 border-purple-300",
+  },
+];
+
+const kindIndex = (kind: CalendarEventKind) =>
+  CALENDAR_EVENT_KINDS.findIndex((entry) => entry.kind === kind);
+
+/**
+ * One event per known lifecycle date, keyed by its Asia/Kolkata day and
+ * ordered by day, then lifecycle step, then name.
+ */
+export const calendarEvents = (ipos: Ipo[]): CalendarEvent[] =>
+  ipos
+    .flatMap((ipo) =>
+      CALENDAR_EVENT_KINDS.flatMap(({ kind, field }) => {
+        const date = ipo[field];
+        return date ? [{ ipo, kind, date, day: toIstIsoDate(date) }] : [];
+      })
+    )
+    .sort(
+      (a, b) =>
+        a.day.localeCompare(b.day) ||
+        kindIndex(a.kind) - kindIndex(b.kind) ||
+        a.ipo.baseName.localeCompare(b.ipo.baseName)
+    );
+
+// Groups events by their YYYY-MM-DD day
+export const eventsByDay = (events: CalendarEvent[]) => {
+  const days = new Map<string, CalendarEvent[]>();
+  for (const event of events) {
+    days.set(event.day, [...(days.get(event.day) ?? []), event]);
+  }
+  return days;
+};
+
+// Calendar-day arithmetic on YYYY-MM-DD strings, free of time zones
+const parseDay = (day: string) => new Date(`${day}T00:00:00Z`);
+
+export const addDays = (day: string, days: number): string =>
+  new Date(parseDay(day).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+export const addMonths = (day: string, months: number): string => {
+  const date = parseDay(day);
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)
+  )
+    .toISOString()
+    .slice(0, 10);
+};
+
+// Whole days from `from` to `to`, negative when `to` is earlier
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / DAY_MS);
+
+// The Monday on or before `day`; Indian market weeks start on Monday
+export const startOfWeek = (day: string): string =>
+  addDays(day, -((parseDay(day).getUTCDay() + 6) % 7));
+
+export const weekDays = (day: string): string[] => {
+  const start = startOfWeek(day);
+  return Array.from({ length: 7 }, (_, index) => addDays(start, index));
+};
+
+/**
+ * Whole weeks (Monday first) covering the month that contains `day`,
+ * including the spill-over days of the neighbouring months.
+ */
+export const monthWeeks = (day: string): string[][] => {
+  const first = `${day.slice(0, 7)}-01`;
+  const next = addMonths(first, 1);
+  const weeks: string[][] = [];
+  for (
+    let start = startOfWeek(first);
+    start < next;
+    start = addDays(start, 7)
+  ) {
+    weeks.push(weekDays(start));
+  }
+  return weeks;
+};
+
+export const isSameMonth = (a: string, b: string) =>
+  a.slice(0, 7) === b.slice(0, 7);
+
+// "19" for the grid, or "Mon, 19 Oct" / "October 2026" for headings
+export const formatDay = (
+  day: string,
+  options: Intl.DateTimeFormatOptions
+): string =>
+  parseDay(day).toLocaleDateString("en-IN", { ...options, timeZone: "UTC" });
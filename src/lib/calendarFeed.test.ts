@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import { DataSource } from "@/types";
+import { createFixtureDataSource } from "./dataSource";
+import { DataSourceError } from "./errors";
+import { calendarFeedUrl } from "./ics";
+import { serveCalendarFeed } from "./calendarFeed";
+import { decodeHTML } from "./utils";
+import { ist } from "./testing";
+
+const NOW = ist("2025-01-01T20:00");
+const ORIGIN = "https://ipo-gmp-pro.pages.dev";
+
+const serve = (url: string, source = createFixtureDataSource(0)) =>
+  serveCalendarFeed(new Request(url), source, NOW);
+
+// IPO ids with an event in the calendar
+const eventIds = (ics: string) => [
+  ...new Set(
+    [...ics.matchAll(/^UID:(.+)-(?:open|close|allotment|listing)@/gm)].map(
+      ([, id]) => id
+    )
+  ),
+];
+
+describe("decodeHTML without a DOM", () => {
+  it.each([
+    ["Open&nbsp;(Sub:29.68x)", "Open\u00a0(Sub:29.68x)"],
+    ["&#8377;260.15", "₹260.15"],
+    ["&#x20B9;25", "₹25"],
+    ["A &amp; B <b>Ltd</b>", "A & B Ltd"],
+    ["&unknown; &#99999999;", "&unknown; &#99999999;"],
+  ])("%s", (html, text) => {
+    expect(decodeHTML(html)).toBe(text);
+  });
+});
+
+describe("serveCalendarFeed", () => {
+  it("serves every IPO as a calendar", async () => {
+    const response = await serve(calendarFeedUrl(ORIGIN, null));
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(
+      "text/calendar; charset=utf-8"
+    );
+    const ics = await response.text();
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(eventIds(ics)).toContain("indo-farm-equipment");
+    expect(eventIds(ics).length).toBeGreaterThan(1);
+    expect(ics).toContain(`URL:${ORIGIN}/ipo/indo-farm-equipment`);
+  });
+
+  it("limits the calendar to the ids in the URL", async () => {
+    const url = calendarFeedUrl(ORIGIN, [
+      "technichem-organics",
+      "indo-farm-equipment",
+    ]);
+    expect(url).toBe(
+      `${ORIGIN}/calendar.ics?ids=indo-farm-equipment%2Ctechnichem-organics`
+    );
+    const ics = await (await serve(url)).text();
+    expect(eventIds(ics).sort()).toEqual([
+      "indo-farm-equipment",
+      "technichem-organics",
+    ]);
+  });
+
+  it("answers 502 without caching when the data source fails", async () => {
+    const failing: DataSource = {
+      name: "Failing",
+      fetchData: async () => {
+        throw new DataSourceError("http", "Status: 503", 503);
+      },
+    };
+    const response = await serve(calendarFeedUrl(ORIGIN, null), failing);
+    expect(response.status).toBe(502);
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+  });
+});
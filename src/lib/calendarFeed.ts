@@ -0,0 +1,55 @@
+import { DataSource } from "@/types";
+import { FETCH_ERROR_LABELS, toDataSourceError } from "./errors";
+import { normalizeGmpData } from "./normalize";
+import { toIcs } from "./ics";
+
+// Calendar apps poll every few hours at most; this only absorbs bursts
+const FEED_MAX_AGE_SECONDS = 15 * 60;
+
+/**
+ * Answers a request for the subscribable calendar (`CALENDAR_FEED_PATH`)
+ * with the current `toIcs` calendar: every IPO in the feed, or those in
+ * the comma-separated `ids` parameter (see `calendarFeedUrl`). Runs on the
+ * server, so subscribed calendars pick up date changes on their own.
+ *
+ * A failed fetch is a 502 that isn't cached; calendar apps keep the events
+ * from their last successful poll.
+ */
+export const serveCalendarFeed = async (
+  request: Request,
+  source: DataSource,
+  now: Date = new Date()
+): Promise<Response> => {
+  const url = new URL(request.url);
+  const ids = url.searchParams.get("ids");
+  const wanted = ids === null ? null : new Set(ids.split(","));
+
+  try {
+    // No validators are sent, so the source always answers with data
+    const response = await source.fetchData();
+    const data = response.status === "ok" ? response.data : [];
+    const { ipos } = normalizeGmpData(data, now);
+    return new Response(
+      toIcs(
+        ipos.filter(({ id }) => !wanted || wanted.has(id)),
+        now,
+        url.origin
+      ),
+      {
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Cache-Control": `public, max-age=${FEED_MAX_AGE_SECONDS}`,
+        },
+      }
+    );
+  } catch (err) {
+    const error = toDataSourceError(err);
+    return new Response(`${FETCH_ERROR_LABELS[error.kind]}: ${error.message}`, {
+      status: 502,
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+};
@@ -0,0 +1,139 @@
+import {
+  CacheValidators,
+  DataSource,
+  DataSourceRequest,
+  GmpApiResponse,
+} from "@/types";
+import { DataSourceError } from "./errors";
+import { resolveApiUrl } from "./apiUrl";
+
+// Set by the service worker (src/sw.ts) on a cached copy it serves because
+// the network failed
+const SW_CACHE_HEADER = "X-From-SW-Cache";
+
+// Reject anything that doesn't at least look like `{ data: [...] }`
+const assertApiResponse = (payload: unknown): GmpApiResponse => {
+  if (
+    !payload ||
+    typeof payload !== "object" ||
+    !Array.isArray((payload as GmpApiResponse).data)
+  ) {
+    throw new DataSourceError(
+      "payload",
+      "Unexpected response shape: missing `data` array"
+    );
+  }
+  return payload as GmpApiResponse;
+};
+
+const conditionalHeaders = (validators?: CacheValidators | null) => {
+  const headers: Record<string, string> = {};
+  if (validators?.etag) headers["If-None-Match"] = validators.etag;
+  if (validators?.lastModified) {
+    headers["If-Modified-Since"] = validators.lastModified;
+  }
+  return headers;
+};
+
+/**
+ * Data source backed by an HTTP endpoint that returns the GMP worker payload.
+ * Used for the public worker as well as for mirrors and local mock servers.
+ *
+ * Sends conditional requests when validators are passed in and reports a
+ * 304 as "not-modified". Conditional headers trigger a CORS preflight on
+ * cross-origin endpoints; if that request fails outright, the source falls
+ * back to plain requests for the rest of the session.
+ *
+ * A cached copy from the service worker counts as a network failure, so the
+ * app keeps its own snapshot with its real fetch time and shows the offline
+ * state instead of labelling old data as fresh.
+ */
+export const createHttpDataSource = (
+  url: string,
+  name = "Live API"
+): DataSource => {
+  let conditional = true;
+
+  const request = async (
+    { signal, validators }: DataSourceRequest,
+    headers: Record<string, string>
+  ) => {
+    const response = await fetch(url, { signal, headers });
+    if (response.headers.has(SW_CACHE_HEADER)) {
+      throw new DataSourceError(
+        "network",
+        "Offline: the network request failed"
+      );
+    }
+    if (response.status === 304 && validators) {
+      return { status: "not-modified" as const };
+    }
+    if (!response.ok) {
+      throw new DataSourceError(
+        "http",
+        `Failed to fetch data. Status: ${response.status}`,
+        response.status
+      );
+    }
+    const payload = await response.json().catch(() => {
+      throw new DataSourceError("payload", "Response is not valid JSON");
+    });
+    const etag = response.headers.get("ETag");
+    const lastModified = response.headers.get("Last-Modified");
+    return {
+      status: "ok" as const,
+      data: assertApiResponse(payload).data,
+      validators: etag || lastModified ? { etag, lastModified } : null,
+    };
+  };
+
+  return {
+    name,
+    fetchData: async (options = {}) => {
+      const headers = conditional ? conditionalHeaders(options.validators) : {};
+      if (!Object.keys(headers).length) {
+        return request({ signal: options.signal }, headers);
+      }
+      try {
+        return await request(options, headers);
+      } catch (err) {
+        if (!(err instanceof TypeError) || options.signal?.aborted) throw err;
+        conditional = false;
+        return request({ signal: options.signal }, {});
+      }
+    },
+  };
+};
+
+/**
+ * Data source that serves the bundled fixture in `src/fixtures/gmp.ts`.
+ * The fixture is loaded lazily so it never ends up in the production bundle
+ * unless this source is selected.
+ */
+export const createFixtureDataSource = (latency = 300): DataSource => ({
+  name: "Fixture",
+  fetchData: async ({ signal } = {}) => {
+    const { default: data } = await import("@/fixtures/gmp");
+    await new Promise((resolve) => setTimeout(resolve, latency));
+    signal?.throwIfAborted();
+    return { status: "ok", data: structuredClone(data), validators: null };
+  },
+});
+
+/**
+ * Picks the data source from the Vite env:
+ *  - `VITE_DATA_SOURCE=fixture` uses the bundled offline fixture.
+ *  - `VITE_GMP_API_URL=<url>` points the HTTP source at a custom endpoint.
+ *  - Otherwise the public GMP worker is used.
+ */
+export const resolveDataSource = (
+  env: ImportMetaEnv = import.meta.env
+): DataSource => {
+  const url = resolveApiUrl(env);
+  if (url === null) {
+    return createFixtureDataSource();
+  }
+  return env.VITE_GMP_API_URL
+    ? createHttpDataSource(url, "Custom API")
+    : createHttpDataSource(url);
+};
@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  DayMonth,
+  LifecycleDayMonths,
+  inferLifecycleDates,
+  parseDate,
+  parseDayMonth,
+  toIstIsoDate,
+} from "./dates";
+import { ist } from "./testing";
+
+const dayMonths = (
+  values: Partial<Record<keyof LifecycleDayMonths, string>>
+): LifecycleDayMonths => {
+  const parse = (value?: string) =>
+    value ? (parseDayMonth(value) as DayMonth) : null;
+  return {
+    open: parse(values.open),
+    close: parse(values.close),
+    boaDate: parse(values.boaDate),
+    listing: parse(values.listing),
+    gmpUpdated: parse(values.gmpUpdated),
+  };
+};
+
+const iso = (date: Date | null) => date?.toISOString() ?? null;
+
+const LIFECYCLE_CASES: {
+  name: string;
+  fetchedAt: string;
+  api: Partial<Record<keyof LifecycleDayMonths, string>>;
+  expected: Partial<Record<keyof LifecycleDayMonths, string>>;
+}[] = [
+  {
+    name: "a 30-Dec open with a 2-Jan close spans the new year",
+    fetchedAt: "2025-12-29T10:00",
+    api: { open: "30-Dec", close: "2-Jan", boaDate: "5-Jan", listing: "7-Jan" },
+    expected: {
+      open: "2025-12-30",
+      close: "2026-01-02",
+      boaDate: "2026-01-05",
+      listing: "2026-01-07",
+    },
+  },
+  {
+    name: "December dates fetched in early January stay in the old year",
+    fetchedAt: "2026-01-03T09:00",
+    api: {
+      open: "22-Dec",
+      close: "24-Dec",
+      boaDate: "26-Dec",
+      listing: "30-Dec",
+    },
+    expected: {
+      open: "2025-12-22",
+      close: "2025-12-24",
+      boaDate: "2025-12-26",
+      listing: "2025-12-30",
+    },
+  },
+  {
+    name: "January dates fetched in late December move to the new year",
+    fetchedAt: "2025-12-28T18:00",
+    api: { open: "5-Jan", close: "7-Jan", boaDate: "8-Jan", listing: "12-Jan" },
+    expected: {
+      open: "2026-01-05",
+      close: "2026-01-07",
+      boaDate: "2026-01-08",
+      listing: "2026-01-12",
+    },
+  },
+  {
+    name: "a December listing after a November open stays in order",
+    fetchedAt: "2025-11-20T12:00",
+    api: { open: "26-Nov", close: "28-Nov", listing: "3-Dec" },
+    expected: {
+      open: "2025-11-26",
+      close: "2025-11-28",
+      listing: "2025-12-03",
+    },
+  },
+  {
+    name: "gmp_updated keeps its IST time on the fetch day",
+    fetchedAt: "2025-12-18T16:30",
+    api: { open: "19-Dec", gmpUpdated: "18-Dec 16:01" },
+    expected: { open: "2025-12-19", gmpUpdated: "2025-12-18T16:01" },
+  },
+  {
+    name: "gmp_updated from 31-Dec fetched on 1-Jan is in the old year",
+    fetchedAt: "2026-01-01T08:00",
+    api: { gmpUpdated: "31-Dec 23:45" },
+    expected: { gmpUpdated: "2025-12-31T23:45" },
+  },
+  {
+    name: "missing dates stay null without breaking the sequence",
+    fetchedAt: "2025-12-29T10:00",
+    api: { open: "31-Dec", listing: "6-Jan" },
+    expected: { open: "2025-12-31", listing: "2026-01-06" },
+  },
+];
+
+const expectLifecycle = ({
+  fetchedAt,
+  api,
+  expected,
+}: (typeof LIFECYCLE_CASES)[number]) => {
+  const resolved = inferLifecycleDates(dayMonths(api), ist(fetchedAt));
+  for (const key of [
+    "open",
+    "close",
+    "boaDate",
+    "listing",
+    "gmpUpdated",
+  ] as const) {
+    expect(iso(resolved[key]), key).toBe(
+      expected[key] ? ist(expected[key]).toISOString() : null
+    );
+  }
+};
+
+describe("inferLifecycleDates", () => {
+  it.each(LIFECYCLE_CASES)("$name", expectLifecycle);
+});
+
+describe("inferLifecycleDates outside IST", () => {
+  const originalTz = process.env.TZ;
+  afterEach(() => {
+    process.env.TZ = originalTz;
+  });
+
+  it.each(["America/Los_Angeles", "Pacific/Kiritimati", "UTC"])(
+    "gives the same IST dates under TZ=%s",
+    (tz) => {
+      process.env.TZ = tz;
+      for (const entry of LIFECYCLE_CASES) expectLifecycle(entry);
+      // IST midnight is still the previous evening in UTC
+      expect(toIstIsoDate(ist("2025-12-30"))).toBe("2025-12-30");
+      expect(ist("2025-12-30").toISOString()).toBe("2025-12-29T18:30:00.000Z");
+    }
+  );
+});
+
+describe("parseDate", () => {
+  it.each([
+    { value: "23-Dec", reference: "2026-01-04T10:00", expected: "2025-12-23" },
+    { value: "3-Jan", reference: "2025-12-30T10:00", expected: "2026-01-03" },
+    { value: "15-Jun", reference: "2025-06-01T10:00", expected: "2025-06-15" },
+    {
+      value: "18-Dec 16:01",
+      reference: "2025-12-18T17:00",
+      expected: "2025-12-18T16:01",
+    },
+    { value: "32-Jan", reference: "2025-06-01T10:00", expected: null },
+    { value: "10-Dec 25:00", reference: "2025-06-01T10:00", expected: null },
+    { value: "Dec 23", reference: "2025-06-01T10:00", expected: null },
+    {
+      value: "2026-01-05",
+      reference: "2025-06-01T10:00",
+      expected: "2026-01-05",
+    },
+    { value: "2025-02-30", reference: "2025-06-01T10:00", expected: null },
+    { value: "2025-13-01", reference: "2025-06-01T10:00", expected: null },
+    { value: null, reference: "2025-06-01T10:00", expected: null },
+  ])("parses $value near $reference", ({ value, reference, expected }) => {
+    expect(iso(parseDate(value, ist(reference)))).toBe(
+      expected ? ist(expected).toISOString() : null
+    );
+  });
+
+  it("skips 29-Feb in years that don't have it", () => {
+    expect(iso(parseDate("29-Feb", ist("2027-02-20T10:00")))).toBe(
+      ist("2028-02-29").toISOString()
+    );
+  });
+});
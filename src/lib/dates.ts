@@ -0,0 +1,206 @@
+/**
+ * Date handling for the GMP API, which sends lifecycle dates as "DD-MMM"
+ * (e.g. "23-Dec") and the GMP timestamp as "DD-MMM HH:mm" (e.g.
+ * "18-Dec 16:01") without a year. All values are Indian market dates, so
+ * they are built as Asia/Kolkata wall-clock times no matter where the viewer
+ * is, and the year is inferred from the fetch time and the order of events.
+ */
+
+// Asia/Kolkata has no DST, so a fixed offset is exact
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+export interface DayMonth {
+  day: number;
+  // 0-based, like Date#getMonth
+  month: number;
+  hours: number;
+  minutes: number;
+  hasTime: boolean;
+}
+
+export interface LifecycleDates {
+  open: Date | null;
+  close: Date | null;
+  boaDate: Date | null;
+  listing: Date | null;
+  gmpUpdated: Date | null;
+}
+
+export type LifecycleDayMonths = Record<keyof LifecycleDates, DayMonth | null>;
+
+/**
+ * Parses "DD-MMM" or "DD-MMM HH:mm" into its parts. Returns null for any
+ * other format or for impossible values like "32-Jan" or "10-Dec 25:00".
+ */
+export const parseDayMonth = (value: string): DayMonth | null => {
+  const match = value
+    .trim()
+    .match(/^(\d{1,2})-([A-Za-z]{3})[A-Za-z]*(?:\s+(\d{1,2}):(\d{2}))?$/);
+  if (!match) return null;
+
+  const day = Number(match[1]);
+  const month = MONTHS.indexOf(match[2].toLowerCase());
+  const hasTime = match[3] !== undefined;
+  const hours = hasTime ? Number(match[3]) : 0;
+  const minutes = hasTime ? Number(match[4]) : 0;
+
+  if (month < 0 || day < 1 || day > 31 || hours > 23 || minutes > 59) {
+    return null;
+  }
+  return { day, month, hours, minutes, hasTime };
+};
+
+/**
+ * Builds the instant for the given Asia/Kolkata wall-clock time. Returns null
+ * when the day doesn't exist in that year (e.g. 29-Feb in 2025).
+ */
+export const istDate = (
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0
+): Date | null => {
+  const utc = new Date(Date.UTC(year, month, day, hours, minutes));
+  if (utc.getUTCMonth() !== month) return null;
+  return new Date(utc.getTime() - IST_OFFSET_MS);
+};
+
+// Calendar fields of an instant as seen in Asia/Kolkata
+export const istParts = (date: Date) => {
+  const shifted = new Date(date.getTime() + IST_OFFSET_MS);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth(),
+    day: shifted.getUTCDate(),
+    hours: shifted.getUTCHours(),
+    minutes: shifted.getUTCMinutes(),
+    weekday: shifted.getUTCDay(),
+  };
+};
+
+// The instant's Asia/Kolkata calendar day as YYYY-MM-DD
+export const toIstIsoDate = (date: Date): string => {
+  const { year, month, day } = istParts(date);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${year}-${pad(month + 1)}-${pad(day)}`;
+};
+
+// Midnight (Asia/Kolkata) at the start of the given instant's day
+export const startOfIstDay = (date: Date): Date => {
+  const { year, month, day } = istParts(date);
+  return istDate(year, month, day) as Date;
+};
+
+// Last millisecond (Asia/Kolkata) of the given instant's day
+export const endOfIstDay = (date: Date): Date =>
+  new Date(startOfIstDay(date).getTime() + DAY_MS - 1);
+
+const toDate = (parts: DayMonth, year: number) =>
+  istDate(year, parts.month, parts.day, parts.hours, parts.minutes);
+
+// The candidate year whose date lies closest to the reference instant
+const nearestTo = (parts: DayMonth, reference: Date): Date | null => {
+  const { year } = istParts(reference);
+  return [year - 1, year, year + 1]
+    .map((candidate) => toDate(parts, candidate))
+    .filter((date): date is Date => date !== null)
+    .reduce<Date | null>(
+      (best, date) =>
+        !best ||
+        Math.abs(date.getTime() - reference.getTime()) <
+          Math.abs(best.getTime() - reference.getTime())
+          ? date
+          : best,
+      null
+    );
+};
+
+// The earliest date on or after the previous lifecycle event
+const onOrAfter = (parts: DayMonth, previous: Date): Date | null => {
+  const { year } = istParts(previous);
+  const floor = startOfIstDay(previous).getTime();
+  for (const candidate of [year, year + 1, year + 2, year + 3, year + 4]) {
+    const date = toDate(parts, candidate);
+    if (date && date.getTime() >= floor) return date;
+  }
+  return null;
+};
+
+/**
+ * Resolves year-less lifecycle dates into real instants.
+ *
+ * The first known event of open → close → allotment → listing gets the year
+ * that puts it closest to `fetchedAt`; each following event gets the first
+ * year that keeps it on or after its predecessor, so a "30-Dec" open with a
+ * "2-Jan" close spans the new year. `gmp_updated` is a past timestamp, so it
+ * takes the latest year that isn't more than a day after `fetchedAt`.
+ */
+export const inferLifecycleDates = (
+  parts: LifecycleDayMonths,
+  fetchedAt: Date
+): LifecycleDates => {
+  const sequence = ["open", "close", "boaDate", "listing"] as const;
+  const resolved: LifecycleDates = {
+    open: null,
+    close: null,
+    boaDate: null,
+    listing: null,
+    gmpUpdated: null,
+  };
+
+  let previous: Date | null = null;
+  for (const key of sequence) {
+    const value = parts[key];
+    if (!value) continue;
+    resolved[key] = previous
+      ? onOrAfter(value, previous)
+      : nearestTo(value, fetchedAt);
+    previous = resolved[key] ?? previous;
+  }
+
+  if (parts.gmpUpdated) {
+    const { year } = istParts(fetchedAt);
+    const latest = fetchedAt.getTime() + DAY_MS;
+    resolved.gmpUpdated =
+      [year + 1, year, year - 1, year - 2]
+        .map((candidate) => toDate(parts.gmpUpdated as DayMonth, candidate))
+        .find((date) => date !== null && date.getTime() <= latest) ?? null;
+  }
+
+  return resolved;
+};
+
+/**
+ * Parses a single "DD-MMM" or "DD-MMM HH:mm" string on its own, choosing
+ * the year closest to `reference`, or a "YYYY-MM-DD" day as is. Prefer
+ * `inferLifecycleDates` when the related lifecycle dates are available.
+ */
+export const parseDate = (
+  dateStr: string | null,
+  reference: Date = new Date()
+): Date | null => {
+  if (!dateStr) return null;
+  const iso = dateStr.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    return istDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  }
+  const parts = parseDayMonth(dateStr);
+  return parts ? nearestTo(parts, reference) : null;
+};
@@ -0,0 +1,132 @@
+import { ChangeEvent, Ipo, LifecycleDateField } from "@/types";
+import { formatDate, priceFormatter } from "./utils";
+
+const DATE_FIELDS: LifecycleDateField[] = [
+  "open",
+  "close",
+  "boaDate",
+  "listing",
+];
+
+const DATE_LABELS: Record<LifecycleDateField, string> = {
+  open: "Open",
+  close: "Close",
+  boaDate: "Allotment",
+  listing: "Listing",
+};
+
+// A subscription change is a "jump" when it grows by at least this many
+// times the issue size, or by this fraction of the previous multiple
+const SUBSCRIPTION_JUMP_ABSOLUTE = 1;
+const SUBSCRIPTION_JUMP_RELATIVE = 0.25;
+
+const isSubscriptionJump = (from: number | null, to: number | null) => {
+  if (to === null) return false;
+  if (from === null) return true;
+  const growth = to - from;
+  return (
+    growth >= SUBSCRIPTION_JUMP_ABSOLUTE ||
+    (from > 0 && growth / from >= SUBSCRIPTION_JUMP_RELATIVE)
+  );
+};
+
+const sameDate = (a: Date | null, b: Date | null) =>
+  (a?.getTime() ?? null) === (b?.getTime() ?? null);
+
+/**
+ * Compares two consecutive snapshots and returns what changed, matching IPOs
+ * by their stable id. Events for an IPO come in a fixed order (listing or
+ * removal, status, GMP, subscription, dates) so the output is deterministic.
+ */
+export const diffSnapshots = (previous: Ipo[], next: Ipo[]): ChangeEvent[] => {
+  const events: ChangeEvent[] = [];
+  const before = new Map(previous.map((ipo) => [ipo.id, ipo]));
+  const after = new Map(next.map((ipo) => [ipo.id, ipo]));
+
+  for (const ipo of next) {
+    const { id, name } = ipo;
+    const old = before.get(id);
+    if (!old) {
+      events.push({ type: "listed", id, name });
+      continue;
+    }
+
+    if (old.status !== ipo.status) {
+      events.push({
+        type: "status",
+        id,
+        name,
+        from: old.status,
+        to: ipo.status,
+      });
+    }
+
+    if (old.gmp !== ipo.gmp) {
+      events.push({
+        type: "gmp",
+        id,
+        name,
+        from: old.gmp,
+        to: ipo.gmp,
+        delta: old.gmp !== null && ipo.gmp !== null ? ipo.gmp - old.gmp : null,
+      });
+    }
+
+    if (isSubscriptionJump(old.subscription, ipo.subscription)) {
+      events.push({
+        type: "subscription",
+        id,
+        name,
+        from: old.subscription,
+        to: ipo.subscription as number,
+      });
+    }
+
+    const changes = DATE_FIELDS.filter(
+      (field) => !sameDate(old[field], ipo[field])
+    ).map((field) => ({ field, from: old[field], to: ipo[field] }));
+    if (changes.length) {
+      events.push({ type: "dates", id, name, changes });
+    }
+  }
+
+  for (const ipo of previous) {
+    if (!after.has(ipo.id)) {
+      events.push({ type: "removed", id: ipo.id, name: ipo.name });
+    }
+  }
+
+  return events;
+};
+
+// One-line, human readable description of a change event
+export const describeChange = (event: ChangeEvent): string => {
+  switch (event.type) {
+    case "listed":
+      return "New IPO listed";
+    case "removed":
+      return "Removed from the list";
+    case "gmp":
+      if (event.delta === null) {
+        return event.to === null
+          ? "GMP no longer available"
+          : `GMP now ${priceFormatter.format(event.to)}`;
+      }
+      return `GMP ${event.delta > 0 ? "up" : "down"} by ${priceFormatter.format(
+        Math.abs(event.delta)
+      )} to ${priceFormatter.format(event.to as number)}`;
+    case "status":
+      return `Status ${event.from ?? "-"} → ${event.to ?? "-"}`;
+    case "subscription":
+      return event.from === null
+        ? `Subscribed ${event.to}x`
+        : `Subscription ${event.from}x → ${event.to}x`;
+    case "dates":
+      return event.changes
+        .map(
+          ({ field, from, to }) =>
+            `${DATE_LABELS[field]} ${formatDate(from)} → ${formatDate(to)}`
+        )
+        .join(", ");
+  }
+};
@@ -0,0 +1,60 @@
+/**
+ * Categories of data fetching failures, shown to the user and used to decide
+ * whether a request is worth retrying.
+ *  - network: the request never got a response (offline, DNS, CORS)
+ *  - timeout: no response within the request timeout
+ *  - http: the server answered with a non-2xx status
+ *  - payload: the response wasn't the `{ data: [...] }` we expect
+ */
+export type FetchErrorKind = "network" | "timeout" | "http" | "payload";
+
+export class DataSourceError extends Error {
+  readonly kind: FetchErrorKind;
+  readonly status: number | null;
+
+  constructor(
+    kind: FetchErrorKind,
+    message: string,
+    status: number | null = null
+  ) {
+    super(message);
+    this.name = "DataSourceError";
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+export const FETCH_ERROR_LABELS: Record<FetchErrorKind, string> = {
+  network: "Network error",
+  timeout: "Request timed out",
+  http: "Server error",
+  payload: "Unexpected data",
+};
+
+// Wraps anything thrown while fetching into a DataSourceError
+export const toDataSourceError = (err: unknown): DataSourceError => {
+  if (err instanceof DataSourceError) return err;
+  if (err instanceof TypeError) {
+    // fetch() rejects with a TypeError when the network request fails
+    return new DataSourceError("network", err.message);
+  }
+  return new DataSourceError(
+    "network",
+    err instanceof Error ? err.message : "An unknown error occurred"
+  );
+};
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === "AbortError";
+
+/**
+ * Network failures, timeouts, rate limiting and 5xx responses may succeed on
+ * a later attempt; bad payloads and other 4xx responses won't.
+ */
+export const isRetryable = (err: DataSourceError): boolean => {
+  if (err.kind === "network" || err.kind === "timeout") return true;
+  if (err.kind === "http" && err.status !== null) {
+    return err.status === 408 || err.status === 429 || err.status >= 500;
+  }
+  return false;
+};
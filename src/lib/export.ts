@@ -0,0 +1,79 @@
+import { Annotations, Ipo } from "@/types";
+import { toIstIsoDate } from "./dates";
+import {
+  gmpPercent,
+  lotGain,
+  minInvestment,
+  smeMinApplication,
+} from "./metrics";
+
+// Dates as IST calendar days, which spreadsheets parse as dates
+const day = (date: Date | null) => (date ? toIstIsoDate(date) : "");
+
+const CSV_COLUMNS: [string, (ipo: Ipo) => string | number | null][] = [
+  ["Name", (ipo) => ipo.baseName],
+  ["Segment", (ipo) => ipo.segment],
+  ["Exchange", (ipo) => ipo.exchange],
+  ["Status", (ipo) => ipo.status],
+  ["Price", (ipo) => ipo.price],
+  ["GMP", (ipo) => ipo.gmp],
+  [
+    "GMP %",
+    (ipo) => {
+      const percent = gmpPercent(ipo);
+      return percent === null ? null : Number(percent.toFixed(2));
+    },
+  ],
+  ["Est. Listing", (ipo) => ipo.estListingPrice ?? ipo.estListing],
+  ["Est. Listing %", (ipo) => ipo.estListingPercent],
+  ["Min. Investment", minInvestment],
+  ["Gain per Lot", lotGain],
+  ["SME 2-Lot Amount", smeMinApplication],
+  ["Issue Size (Cr)", (ipo) => ipo.issueSize],
+  ["Lot", (ipo) => ipo.lot],
+  ["Subscription (x)", (ipo) => ipo.subscription],
+  ["Open", (ipo) => day(ipo.open)],
+  ["Close", (ipo) => day(ipo.close)],
+  ["Allotment", (ipo) => day(ipo.boaDate)],
+  ["Listing", (ipo) => day(ipo.listing)],
+  ["GMP Updated", (ipo) => ipo.gmpUpdated?.toISOString() ?? null],
+];
+
+// RFC 4180 quoting: fields with quotes, commas or newlines are wrapped
+const csvField = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes IPOs as CSV, one row per IPO in the given order, with the
+ * user's tags and notes as the last two columns.
+ */
+export const toCsv = (ipos: Ipo[], annotations: Annotations): string => {
+  const header = [...CSV_COLUMNS.map(([label]) => label), "Tags", "Notes"];
+  const rows = ipos.map((ipo) => {
+    const annotation = annotations[ipo.id];
+    return [
+      ...CSV_COLUMNS.map(([, value]) => value(ipo)),
+      annotation?.tags.join("; ") ?? null,
+      annotation?.note ?? null,
+    ];
+  });
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n");
+};
+
+// Saves `content` through a temporary object URL
+export const downloadFile = (
+  filename: string,
+  content: string,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,111 @@
+import { IpoFilters, Ipo, NumberRange } from "@/types";
+import { gmpPercent } from "./metrics";
+import { LIFECYCLE_PHASES, lifecyclePhase } from "./phase";
+import { hasAnyTag } from "./annotations";
+import { formatIPOSize, formatPrice } from "./utils";
+
+const EMPTY_RANGE: NumberRange = { min: null, max: null };
+
+export const EMPTY_FILTERS: IpoFilters = {
+  segment: null,
+  phases: [],
+  gmp: EMPTY_RANGE,
+  gmpPercent: EMPTY_RANGE,
+  price: EMPTY_RANGE,
+  issueSize: EMPTY_RANGE,
+  hasSubscription: false,
+  tags: [],
+};
+
+// Unset bounds always match; a set bound never matches a missing value
+const inRange = (value: number | null, { min, max }: NumberRange) => {
+  if (min === null && max === null) return true;
+  if (value === null) return false;
+  return (min === null || value >= min) && (max === null || value <= max);
+};
+
+// `tags` are the user's tags on this IPO, which live outside the model
+export const matchesFilters = (
+  ipo: Ipo,
+  filters: IpoFilters,
+  now: Date,
+  tags: string[] = []
+): boolean => {
+  if (filters.segment && ipo.segment !== filters.segment) return false;
+  if (filters.phases.length) {
+    const phase = lifecyclePhase(ipo, now);
+    if (!phase || !filters.phases.includes(phase)) return false;
+  }
+  if (filters.hasSubscription && ipo.subscription === null) return false;
+  if (filters.tags.length && !hasAnyTag(tags, filters.tags)) return false;
+  return (
+    inRange(ipo.gmp, filters.gmp) &&
+    inRange(gmpPercent(ipo), filters.gmpPercent) &&
+    inRange(ipo.price, filters.price) &&
+    inRange(ipo.issueSize, filters.issueSize)
+  );
+};
+
+const describeRange = (
+  label: string,
+  { min, max }: NumberRange,
+  format: (value: number) => string
+) => {
+  if (min !== null && max !== null) {
+    return `${label} ${format(min)} to ${format(max)}`;
+  }
+  if (min !== null) return `${label} ≥ ${format(min)}`;
+  return `${label} ≤ ${format(max as number)}`;
+};
+
+export interface FilterChip {
+  key: keyof IpoFilters;
+  label: string;
+}
+
+// One chip per active filter, for the chip row under the search box
+export const activeFilterChips = (filters: IpoFilters): FilterChip[] => {
+  const chips: FilterChip[] = [];
+  if (filters.segment) {
+    chips.push({ key: "segment", label: filters.segment });
+  }
+  if (filters.phases.length) {
+    chips.push({
+      key: "phases",
+      label: LIFECYCLE_PHASES.filter(({ value }) =>
+        filters.phases.includes(value)
+      )
+        .map(({ label }) => label)
+        .join(" / "),
+    });
+  }
+  const ranges: [
+    keyof IpoFilters,
+    string,
+    NumberRange,
+    (v: number) => string,
+  ][] = [
+    ["gmp", "GMP", filters.gmp, formatPrice],
+    ["gmpPercent", "GMP", filters.gmpPercent, (v) => `${v}%`],
+    ["price", "Price", filters.price, formatPrice],
+    ["issueSize", "Size", filters.issueSize, formatIPOSize],
+  ];
+  for (const [key, label, range, format] of ranges) {
+    if (range.min !== null || range.max !== null) {
+      chips.push({ key, label: describeRange(label, range, format) });
+    }
+  }
+  if (filters.hasSubscription) {
+    chips.push({ key: "hasSubscription", label: "Has subscription data" });
+  }
+  if (filters.tags.length) {
+    chips.push({ key: "tags", label: `Tagged ${filters.tags.join(" / ")}` });
+  }
+  return chips;
+};
+
+// Resets a single filter to its empty value
+export const clearFilter = (
+  filters: IpoFilters,
+  key: keyof IpoFilters
+): IpoFilters => ({ ...filters, [key]: EMPTY_FILTERS[key] });
@@ -0,0 +1,90 @@
+import { GmpHistory, GmpHistoryPoint, GmpTrend, Ipo } from "@/types";
+import { readStorage, writeStorage } from "./storage";
+import { startOfIstDay } from "./dates";
+
+const HISTORY_KEY = "gmp-history";
+const HISTORY_VERSION = 1;
+
+// Enough for a few weeks of refreshes per IPO without filling localStorage
+const MAX_POINTS_PER_IPO = 120;
+// IPOs that haven't appeared in a payload for this long are dropped
+const RETENTION_MS = 60 * 24 * 60 * 60 * 1000;
+
+export const readHistory = (): GmpHistory =>
+  readStorage<GmpHistory>(HISTORY_KEY, HISTORY_VERSION) ?? {};
+
+export const writeHistory = (history: GmpHistory) =>
+  writeStorage(HISTORY_KEY, HISTORY_VERSION, history);
+
+// Two points describe the same observation if nothing we track moved
+const isSameObservation = (a: GmpHistoryPoint, b: GmpHistoryPoint) =>
+  a.gmp === b.gmp &&
+  a.estListing === b.estListing &&
+  a.subscription === b.subscription &&
+  a.gmpUpdated === b.gmpUpdated;
+
+/**
+ * Appends one fetched snapshot to the history and returns the new history.
+ * A point is only added when it differs from the IPO's latest point, so
+ * repeated refreshes of an unchanged payload don't grow the store.
+ */
+export const recordSnapshot = (
+  history: GmpHistory,
+  ipos: Ipo[],
+  fetchedAt: number
+): GmpHistory => {
+  const next: GmpHistory = {};
+
+  for (const [id, points] of Object.entries(history)) {
+    const latest = points[points.length - 1];
+    if (latest && fetchedAt - latest.at < RETENTION_MS) {
+      next[id] = points;
+    }
+  }
+
+  for (const ipo of ipos) {
+    const point: GmpHistoryPoint = {
+      at: fetchedAt,
+      gmp: ipo.gmp,
+      estListing: ipo.estListing,
+      subscription: ipo.subscription,
+      gmpUpdated: ipo.gmpUpdated?.getTime() ?? null,
+    };
+    const points = next[ipo.id] ?? [];
+    const latest = points[points.length - 1];
+    if (latest && isSameObservation(latest, point)) continue;
+    next[ipo.id] = [...points, point].slice(-MAX_POINTS_PER_IPO);
+  }
+
+  return next;
+};
+
+// GMP of the last point at or before `time`
+const gmpAsOf = (points: GmpHistoryPoint[], time: number): number | null => {
+  const before = points.filter(
+    (point) => point.gmp !== null && point.at <= time
+  );
+  return before.length ? before[before.length - 1].gmp : null;
+};
+
+/**
+ * Summarizes an IPO's history for display: the recorded points plus the GMP
+ * change since the end of yesterday (Asia/Kolkata) and since the issue
+ * opened. Deltas are null when there is no earlier point to compare with.
+ */
+export const gmpTrend = (
+  ipo: Ipo,
+  points: GmpHistoryPoint[] = [],
+  now: Date = new Date()
+): GmpTrend => {
+  const delta = (since: number) => {
+    const baseline = gmpAsOf(points, since);
+    return ipo.gmp === null || baseline === null ? null : ipo.gmp - baseline;
+  };
+
+  return {
+    points,
+    sinceYesterday: delta(startOfIstDay(now).getTime() - 1),
+    sinceOpen: ipo.open ? delta(ipo.open.getTime()) : null,
+  };
+};
@@ -0,0 +1,125 @@
+import { Ipo } from "@/types";
+import { CALENDAR_EVENT_KINDS, addDays, calendarEvents } from "./calendar";
+import { toIstIsoDate } from "./dates";
+import { formatPercent, formatPrice } from "./utils";
+import { gmpPercent } from "./metrics";
+import { ipoPath } from "./router";
+
+// Served by the Pages Function in `functions/calendar.ics.ts`
+export const CALENDAR_FEED_PATH = "/calendar.ics";
+
+// Keeps UIDs globally unique while staying the same across exports
+const UID_DOMAIN = "ipo-gmp-pro";
+// RFC 5545 §3.1: lines longer than 75 octets are folded
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+// RFC 5545 §3.3.11 TEXT escaping
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Folds at octet boundaries without splitting a multi-byte character
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    if (octets + size > MAX_LINE_OCTETS - (parts.length ? 1 : 0)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+// "2026-10-19" → "20261019"
+const icsDate = (day: string) => day.replace(/-/g, "");
+
+// UTC date-time, e.g. "20261019T093000Z"
+const icsDateTime = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const describe = (ipo: Ipo, url: string, now: Date) =>
+  [
+    `Issue price: ${formatPrice(ipo.price)}`,
+    `GMP: ${formatPrice(ipo.gmp)} (${formatPercent(gmpPercent(ipo))})`,
+    `Est. listing: ${ipo.estListing ?? "-"}`,
+    `Lot size: ${ipo.lot ?? "-"}`,
+    `Segment: ${ipo.segment}`,
+    ipo.subscription === null ? null : `Subscription: ${ipo.subscription}x`,
+    "",
+    `GMP as of ${toIstIsoDate(now)}; it changes daily.`,
+    url,
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+
+/**
+ * RFC 5545 calendar with one all-day event per known open, close,
+ * allotment and listing date. UIDs are derived from the IPO id and the
+ * step, and SEQUENCE from the export time, so importing a newer file
+ * updates the events from an older one instead of duplicating them.
+ *
+ * The output doesn't depend on the browser; the subscribable feed
+ * (`lib/calendarFeed.ts`) serves the same calendar from a server.
+ */
+export const toIcs = (ipos: Ipo[], now: Date, origin: string): string => {
+  const stamp = icsDateTime(now);
+  const sequence = Math.floor(now.getTime() / 1000);
+
+  const events = calendarEvents(ipos).flatMap(({ ipo, kind, day }) => {
+    const { label } = CALENDAR_EVENT_KINDS.find(
+      (entry) => entry.kind === kind
+    ) as (typeof CALENDAR_EVENT_KINDS)[number];
+    const url = `${origin}${ipoPath(ipo.id)}`;
+    return [
+      "BEGIN:VEVENT",
+      `UID:${ipo.id}-${kind}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `SEQUENCE:${sequence}`,
+      `DTSTART;VALUE=DATE:${icsDate(day)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(day, 1))}`,
+      `SUMMARY:${escapeText(`${ipo.baseName} IPO: ${label}`)}`,
+      `DESCRIPTION:${escapeText(describe(ipo, url, now))}`,
+      `URL:${url}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ];
+  });
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//IPO GMP Pro//IPO dates//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:IPO GMP",
+    "X-WR-TIMEZONE:Asia/Kolkata",
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .map(foldLine)
+    .join("\r\n")
+    .concat("\r\n");
+};
+
+// URL to subscribe to: every IPO in the feed, or only `ids` (the watchlist)
+export const calendarFeedUrl = (origin: string, ids: string[] | null) => {
+  const url = new URL(CALENDAR_FEED_PATH, origin);
+  if (ids) url.searchParams.set("ids", [...ids].sort().join(","));
+  return url.href;
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+
+import { ParsedIpoName } from "@/types";
+import gmpFixture from "@/fixtures/gmp";
+import { ipoId, parseIpoName } from "./ipoName";
+
+// What `decodeHTML` makes of the API's entities before parsing
+const decode = (raw: string) => raw.replace(/&nbsp;/g, "\u00a0");
+
+const parsed = (overrides: Partial<ParsedIpoName>): ParsedIpoName => ({
+  baseName: "",
+  status: null,
+  subscription: null,
+  segment: "Mainboard",
+  exchange: null,
+  tokens: [],
+  ...overrides,
+});
+
+// Keyed by the raw `ipo` string of every row in the bundled fixture
+const FIXTURE_NAMES: Record<string, ParsedIpoName> = {
+  "Indo Farm Equipment Open&nbsp;(Sub:29.68x)": parsed({
+    baseName: "Indo Farm Equipment",
+    status: "Open",
+    subscription: 29.68,
+  }),
+  "Technichem Organics NSE SME Open&nbsp;(Sub:10.17x)": parsed({
+    baseName: "Technichem Organics",
+    status: "Open",
+    subscription: 10.17,
+    segment: "SME",
+    exchange: "NSE",
+  }),
+  "Leo Dry Fruits and Spices BSE SME": parsed({
+    baseName: "Leo Dry Fruits and Spices",
+    segment: "SME",
+    exchange: "BSE",
+  }),
+  "Unimech Aerospace Close&nbsp;(Sub:175.31x)": parsed({
+    baseName: "Unimech Aerospace",
+    status: "Close",
+    subscription: 175.31,
+  }),
+  "Citichem India NSE SME Close&nbsp;(Sub:166.16x)": parsed({
+    baseName: "Citichem India",
+    status: "Close",
+    subscription: 166.16,
+    segment: "SME",
+    exchange: "NSE",
+  }),
+  "Standard Glass Lining Technology": parsed({
+    baseName: "Standard Glass Lining Technology",
+  }),
+};
+
+describe("parseIpoName with the bundled fixture", () => {
+  it("covers every fixture row", () => {
+    expect(gmpFixture.map(({ ipo }) => ipo).sort()).toEqual(
+      Object.keys(FIXTURE_NAMES).sort()
+    );
+  });
+
+  it.each(gmpFixture.map(({ ipo }) => ipo))("parses %s", (raw) => {
+    expect(parseIpoName(decode(raw))).toEqual(FIXTURE_NAMES[raw]);
+  });
+});
+
+describe("parseIpoName edge cases", () => {
+  it.each<[string, ParsedIpoName]>([
+    ["Open Systems Ltd", parsed({ baseName: "Open Systems Ltd" })],
+    [
+      "Open Systems Ltd Open (Sub:2.5x)",
+      parsed({
+        baseName: "Open Systems Ltd",
+        status: "Open",
+        subscription: 2.5,
+      }),
+    ],
+    [
+      "Close Brothers BSE SME Close",
+      parsed({
+        baseName: "Close Brothers",
+        status: "Close",
+        segment: "SME",
+        exchange: "BSE",
+      }),
+    ],
+    [
+      "Acme Tech NSE SME (Upcoming)",
+      parsed({
+        baseName: "Acme Tech",
+        segment: "SME",
+        exchange: "NSE",
+        tokens: ["Upcoming"],
+      }),
+    ],
+    [
+      "Acme Tech (Upcoming) (Day 1)",
+      parsed({ baseName: "Acme Tech", tokens: ["Upcoming", "Day 1"] }),
+    ],
+    [
+      "Acme Tech Open (Sub: 1.2 x) (Day 2)",
+      parsed({
+        baseName: "Acme Tech",
+        status: "Open",
+        subscription: 1.2,
+        tokens: ["Day 2"],
+      }),
+    ],
+    [
+      "Embassy Parks REIT Close",
+      parsed({ baseName: "Embassy Parks", status: "Close", tokens: ["REIT"] }),
+    ],
+    ["Acme Tech IPO", parsed({ baseName: "Acme Tech", tokens: ["IPO"] })],
+    ["Acme Tech Emerge", parsed({ baseName: "Acme Tech", segment: "SME" })],
+    ["  Acme   Tech  ", parsed({ baseName: "Acme Tech" })],
+    // A lone marker word is kept as the name
+    ["Open", parsed({ baseName: "Open" })],
+  ])("parses %j", (raw, expected) => {
+    expect(parseIpoName(raw)).toEqual(expected);
+  });
+});
+
+describe("ipoId", () => {
+  it.each([
+    ["Indo Farm Equipment", "indo-farm-equipment"],
+    ["Leo Dry Fruits & Spices", "leo-dry-fruits-and-spices"],
+    ["  B.R. Goyal (India) Ltd. ", "b-r-goyal-india-ltd"],
+  ])("%s → %s", (baseName, expected) => {
+    expect(ipoId(baseName)).toBe(expected);
+  });
+
+  it("is the same whatever the status and subscription", () => {
+    const ids = [
+      "Indo Farm Equipment",
+      "Indo Farm Equipment Open (Sub:1.2x)",
+      "Indo Farm Equipment Close (Sub:29.68x)",
+    ].map((raw) => ipoId(parseIpoName(raw).baseName));
+    expect(new Set(ids).size).toBe(1);
+  });
+});
@@ -0,0 +1,86 @@
+import { IpoExchange, IpoSegment, IpoStatus, ParsedIpoName } from "@/types";
+
+/**
+ * Parser for the overloaded `ipo` string of the API, which packs the company
+ * name together with suffix markers, e.g.
+ *
+ *   "Technichem Organics NSE SME Open (Sub:10.17x)"
+ *   "Unimech Aerospace Close (Sub:175.31x)"
+ *   "Leo Dry Fruits and Spices BSE SME"
+ *
+ * Markers are peeled off the end of the string one at a time, so marker-like
+ * words inside a company name ("Open Systems Ltd") are left alone.
+ */
+
+const SUBSCRIPTION = /\(\s*Sub\s*:\s*(\d+(?:\.\d+)?)\s*x\s*\)/i;
+// Any other trailing parenthesized note, e.g. "(Upcoming)"
+const TRAILING_NOTE = /\s*\(([^()]*)\)\s*$/;
+
+const STATUSES: Record<string, IpoStatus> = { open: "Open", close: "Close" };
+const EXCHANGES: Record<string, IpoExchange> = { bse: "BSE", nse: "NSE" };
+const SME_MARKERS = new Set(["sme", "emerge"]);
+// Suffixes that carry no information we model, but aren't part of the name
+const OTHER_MARKERS = new Set(["ipo", "fpo", "reit", "invit"]);
+
+export const parseIpoName = (name: string): ParsedIpoName => {
+  // The API separates suffixes with &nbsp;, which decodes to U+00A0
+  let rest = name.replace(/\u00a0/g, " ").trim();
+
+  const subscriptionMatch = rest.match(SUBSCRIPTION);
+  const subscription = subscriptionMatch
+    ? parseFloat(subscriptionMatch[1])
+    : null;
+  rest = rest.replace(SUBSCRIPTION, " ").trim();
+
+  const tokens: string[] = [];
+  let note = rest.match(TRAILING_NOTE);
+  while (note) {
+    tokens.unshift(note[1].trim());
+    rest = rest.slice(0, note.index).trim();
+    note = rest.match(TRAILING_NOTE);
+  }
+
+  let status: IpoStatus | null = null;
+  let exchange: IpoExchange | null = null;
+  let segment: IpoSegment = "Mainboard";
+
+  const words = rest.split(/\s+/);
+  // Always keep at least one word as the company name
+  while (words.length > 1) {
+    const word = words[words.length - 1];
+    const key = word.toLowerCase();
+    if (STATUSES[key] && !status) {
+      status = STATUSES[key];
+    } else if (EXCHANGES[key] && !exchange) {
+      exchange = EXCHANGES[key];
+    } else if (SME_MARKERS.has(key)) {
+      segment = "SME";
+    } else if (OTHER_MARKERS.has(key)) {
+      tokens.unshift(word);
+    } else {
+      break;
+    }
+    words.pop();
+  }
+
+  return {
+    baseName: words.join(" "),
+    status,
+    subscription,
+    segment,
+    exchange,
+    tokens,
+  };
+};
+
+/**
+ * Stable identity for an IPO across refreshes: the parsed base name,
+ * lower-cased and slugified, so status and subscription changes in the raw
+ * string don't turn it into a different IPO.
+ */
+export const ipoId = (baseName: string): string =>
+  baseName
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
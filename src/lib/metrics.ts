@@ -0,0 +1,19 @@
+import { Ipo } from "@/types";
+
+// GMP as a percentage of the issue price, null if either is unknown
+export const gmpPercent = ({ gmp, price }: Ipo): number | null =>
+  gmp === null || !price ? null : (gmp / price) * 100;
+
+// Minimum retail application: one lot at the issue price
+export const minInvestment = ({ price, lot }: Ipo): number | null =>
+  price === null || lot === null ? null : price * lot;
+
+// Expected listing-day gain on one lot if the GMP holds
+export const lotGain = ({ gmp, lot }: Ipo): number | null =>
+  gmp === null || lot === null ? null : gmp * lot;
+
+// SME issues take applications of at least two lots; null for mainboard
+export const smeMinApplication = (ipo: Ipo): number | null => {
+  const amount = minInvestment(ipo);
+  return ipo.segment === "SME" && amount !== null ? amount * 2 : null;
+};
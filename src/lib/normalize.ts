@@ -0,0 +1,184 @@
+import {
+  GmpDataItem,
+  Ipo,
+  NormalizationIssue,
+  NormalizationResult,
+} from "@/types";
+import { decodeHTML } from "./utils";
+import { ipoId, parseIpoName } from "./ipoName";
+import { DayMonth, inferLifecycleDates, parseDayMonth } from "./dates";
+
+// Values the API uses to say "not available yet"
+const PLACEHOLDERS = new Set(["", "-", "--", "—", "NA", "N/A"]);
+
+export const isPlaceholder = (value: string | null | undefined): boolean =>
+  value == null || PLACEHOLDERS.has(value.trim());
+
+type FieldResult<T> = { value: T | null; error?: string };
+
+/**
+ * Parses a numeric API field such as "215", "&#8377;260.15", "1,200" or
+ * "500 Cr". Placeholders become null without an error; anything else that
+ * isn't a number becomes null with an error so it can be reported.
+ */
+export const parseNumber = (raw: string | null): FieldResult<number> => {
+  if (isPlaceholder(raw)) return { value: null };
+  const cleaned = decodeHTML(raw as string)
+    .replace(/₹|Rs\.?|crores?|cr\.?|,|\s/gi, "")
+    .trim();
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) {
+    return { value: null, error: `"${raw}" is not a number` };
+  }
+  return { value: parseFloat(cleaned) };
+};
+
+export interface EstListing {
+  price: number;
+  // Over the issue price, when the API includes it
+  percent: number | null;
+}
+
+/**
+ * Parses the estimated listing, e.g. "260 (20.93%)", "&#8377;1,215" or
+ * "68 (-2.86%)", into the listing price and its premium over the issue.
+ */
+export const parseEstListing = (
+  raw: string | null
+): FieldResult<EstListing> => {
+  if (isPlaceholder(raw)) return { value: null };
+  const match = /^(.*?)(?:\(\s*([+-]?\d+(?:\.\d+)?)\s*%\s*\))?\s*$/.exec(
+    decodeHTML(raw as string)
+  );
+  const price = parseNumber(match?.[1] ?? null).value;
+  if (price === null) {
+    return { value: null, error: `"${raw}" is not a listing estimate` };
+  }
+  return {
+    value: { price, percent: match?.[2] ? parseFloat(match[2]) : null },
+  };
+};
+
+const parseDateField = (raw: string | null): FieldResult<DayMonth> => {
+  if (isPlaceholder(raw)) return { value: null };
+  const parts = parseDayMonth(raw as string);
+  if (!parts) {
+    return { value: null, error: `"${raw}" is not a recognised date` };
+  }
+  return { value: parts };
+};
+
+const optionalString = (raw: unknown): string | null =>
+  typeof raw === "string" && !isPlaceholder(raw) ? decodeHTML(raw) : null;
+
+/**
+ * Validates the raw API rows and converts them into the `Ipo` model.
+ *
+ * Rows without a usable `ipo` name are dropped; fields that are present but
+ * unreadable are set to null. Both cases are returned in `issues` instead of
+ * being silently coerced to 0.
+ *
+ * `fetchedAt` is the time the payload was fetched; it anchors the year of
+ * the year-less API dates (see `inferLifecycleDates`).
+ */
+export const normalizeGmpData = (
+  rows: unknown[],
+  fetchedAt: Date = new Date()
+): NormalizationResult => {
+  const ipos: Ipo[] = [];
+  const issues: NormalizationIssue[] = [];
+
+  rows.forEach((row, index) => {
+    if (!row || typeof row !== "object") {
+      issues.push({
+        index,
+        ipo: null,
+        field: null,
+        value: row,
+        message: "Row is not an object",
+      });
+      return;
+    }
+
+    const item = row as GmpDataItem;
+    if (typeof item.ipo !== "string" || isPlaceholder(item.ipo)) {
+      issues.push({
+        index,
+        ipo: null,
+        field: "ipo",
+        value: item.ipo,
+        message: "Row has no IPO name",
+      });
+      return;
+    }
+
+    const name = decodeHTML(item.ipo).trim();
+    const field = <T>(
+      key: keyof GmpDataItem,
+      parse: (raw: string | null) => FieldResult<T>
+    ): T | null => {
+      const raw = item[key];
+      if (raw != null && typeof raw !== "string") {
+        issues.push({
+          index,
+          ipo: name,
+          field: key,
+          value: raw,
+          message: `Expected a string, got ${typeof raw}`,
+        });
+        return null;
+      }
+      const { value, error } = parse(raw ?? null);
+      if (error) {
+        issues.push({
+          index,
+          ipo: name,
+          field: key,
+          value: raw,
+          message: error,
+        });
+      }
+      return value;
+    };
+
+    const dates = inferLifecycleDates(
+      {
+        open: field("open", parseDateField),
+        close: field("close", parseDateField),
+        boaDate: field("boa_dt", parseDateField),
+        listing: field("listing", parseDateField),
+        gmpUpdated: field("gmp_updated", parseDateField),
+      },
+      fetchedAt
+    );
+
+    const parsedName = parseIpoName(name);
+    const estListing = field("est_listing", parseEstListing);
+
+    ipos.push({
+      id: ipoId(parsedName.baseName),
+      name,
+      ...parsedName,
+      price: field("price", parseNumber),
+      gmp: field("gmp", parseNumber),
+      estListing: optionalString(item.est_listing),
+      estListingPrice: estListing?.price ?? null,
+      estListingPercent: estListing?.percent ?? null,
+      issueSize: field("ipo_size", parseNumber),
+      lot: field("lot", parseNumber),
+      ...dates,
+      classname: optionalString(item.classname),
+      raw: item,
+    });
+  });
+
+  return { ipos, issues };
+};
+
+// "Row 3 (Acme Ltd), gmp: "abc" is not a number", for the status tooltip
+export const describeIssue = ({
+  index,
+  ipo,
+  field,
+  message,
+}: NormalizationIssue): string =>
+  `Row ${index + 1}${ipo ? ` (${ipo})` : ""}${field ? `, ${field}` : ""}: ${message}`;
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+
+import { Ipo, LifecyclePhase } from "@/types";
+import { isTakingBids, lifecyclePhase, phaseIndex } from "./phase";
+import { ist } from "./testing";
+
+// Dates arrive as IST midnights, see `inferLifecycleDates`
+const ipo = ({
+  open = null,
+  close = null,
+  boaDate = null,
+  listing = null,
+}: Partial<Record<"open" | "close" | "boaDate" | "listing", string | null>>) =>
+  ({
+    open: open && ist(open),
+    close: close && ist(close),
+    boaDate: boaDate && ist(boaDate),
+    listing: listing && ist(listing),
+  }) as Ipo;
+
+// Opens Mon 15 Dec, closes Wed 17 Dec, allotment Thu 18, lists Mon 22
+const IPO = ipo({
+  open: "2025-12-15",
+  close: "2025-12-17",
+  boaDate: "2025-12-18",
+  listing: "2025-12-22",
+});
+
+describe("lifecyclePhase", () => {
+  it.each<[string, LifecyclePhase]>([
+    ["2025-12-14T23:59", "upcoming"],
+    ["2025-12-15T00:00", "open"],
+    ["2025-12-16T12:00", "open"],
+    ["2025-12-17T00:00", "closing-today"],
+    ["2025-12-17T23:59", "closing-today"],
+    ["2025-12-18T00:00", "allotment-out"],
+    ["2025-12-21T23:59", "allotment-out"],
+    ["2025-12-22T00:00", "listing-today"],
+    ["2025-12-22T23:59", "listing-today"],
+    ["2025-12-23T00:00", "listed"],
+  ])("at %s IST is %s", (now, expected) => {
+    expect(lifecyclePhase(IPO, ist(now))).toBe(expected);
+  });
+
+  it("counts the last millisecond of the close day as closing", () => {
+    const lastMoment = new Date(ist("2025-12-18").getTime() - 1);
+    expect(lifecyclePhase(IPO, lastMoment)).toBe("closing-today");
+  });
+
+  it.each<[string, LifecyclePhase]>([
+    ["2025-12-17T23:59", "closing-today"],
+    ["2025-12-18T00:00", "closed"],
+    ["2025-12-19T23:59", "closed"],
+    ["2025-12-20T00:00", "allotment-out"],
+  ])("with a later allotment, at %s IST is %s", (now, expected) => {
+    const later = { ...IPO, boaDate: ist("2025-12-20") };
+    expect(lifecyclePhase(later, ist(now))).toBe(expected);
+  });
+
+  it.each<[string, LifecyclePhase]>([
+    ["2025-12-14T23:59", "upcoming"],
+    ["2025-12-15T00:00", "closing-today"],
+    ["2025-12-16T00:00", "closed"],
+  ])("for a one-day issue, at %s IST is %s", (now, expected) => {
+    const oneDay = ipo({ open: "2025-12-15", close: "2025-12-15" });
+    expect(lifecyclePhase(oneDay, ist(now))).toBe(expected);
+  });
+
+  it("stays closed after the close until the allotment date is known", () => {
+    const noAllotment = { ...IPO, boaDate: null };
+    expect(lifecyclePhase(noAllotment, ist("2025-12-20T10:00"))).toBe("closed");
+  });
+
+  it("is null without an open date", () => {
+    expect(lifecyclePhase(ipo({}), ist("2025-12-15T10:00"))).toBeNull();
+  });
+
+  it("uses IST days, not UTC ones", () => {
+    // 19:00 UTC on the 16th is already the close day in India
+    expect(lifecyclePhase(IPO, new Date("2025-12-16T19:00:00Z"))).toBe(
+      "closing-today"
+    );
+  });
+});
+
+describe("isTakingBids", () => {
+  it.each<[LifecyclePhase | null, boolean]>([
+    ["upcoming", false],
+    ["open", true],
+    ["closing-today", true],
+    ["closed", false],
+    [null, false],
+  ])("%s → %s", (phase, expected) => {
+    expect(isTakingBids(phase)).toBe(expected);
+  });
+});
+
+describe("phaseIndex", () => {
+  it("orders phases by lifecycle and keeps unknown ones null", () => {
+    expect(phaseIndex("upcoming")).toBe(0);
+    expect(phaseIndex("listed")).toBe(6);
+    expect(phaseIndex(null)).toBeNull();
+  });
+});
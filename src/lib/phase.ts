@@ -0,0 +1,103 @@
+import { Ipo, LifecyclePhase } from "@/types";
+import { endOfIstDay, toIstIsoDate } from "./dates";
+
+/**
+ * Every lifecycle phase in order, with the styles the views use for it.
+ * The order is also the sort order of the Phase column.
+ */
+export const LIFECYCLE_PHASES: {
+  value: LifecyclePhase;
+  label: string;
+  badgeClassName: string;
+  // Row / card tint; phases that need no attention stay plain
+  rowClassName: string;
+}[] = [
+  {
+    value: "upcoming",
+    label: "Upcoming",
+    badgeClassName: "bg-slate-100 text-slate-800 border-slate-300",
+    rowClassName: "",
+  },
+  {
+    value: "open",
+    label: "Open",
+    badgeClassName: "bg-green-100 text-green-900 border-green-300",
+    rowClassName: "bg-green-100",
+  },
+  {
+    value: "closing-today",
+    label: "Closing Today",
+    badgeClassName: "bg-orange-100 text-orange-900 border-orange-300",
+    rowClassName: "bg-orange-100",
+  },
+  {
+    value: "closed",
+    label: "Closed",
+    badgeClassName: "bg-amber-50 text-amber-900 border-amber-200",
+    rowClassName: "",
+  },
+  {
+    value: "allotment-out",
+    label: "Allotment Out",
+    badgeClassName: "bg-blue-100 text-blue-900 border-blue-300",
+    rowClassName: "bg-blue-50",
+  },
+  {
+    value: "listing-today",
+    label: "Listing Today",
+    badgeClassName: "bg-purple-100 text-purple-900 border-purple-300",
+    rowClassName: "bg-purple-100",
+  },
+  {
+    value: "listed",
+    label: "Listed",
+    badgeClassName: "bg-muted text-muted-foreground border-border",
+    rowClassName: "text-muted-foreground",
+  },
+];
+
+/**
+ * Where an IPO is in its lifecycle at `now`, from its open, close,
+ * allotment and listing dates (all Asia/Kolkata days). Null when not even
+ * the open date is known.
+ *
+ * The day steps win over the ranges: an IPO is "Listing Today" on its
+ * listing day and "Closing Today" on its last bidding day.
+ */
+export const lifecyclePhase = (
+  { open, close, boaDate, listing }: Ipo,
+  now: Date
+): LifecyclePhase | null => {
+  const today = toIstIsoDate(now);
+  if (listing) {
+    const listingDay = toIstIsoDate(listing);
+    if (listingDay === today) return "listing-today";
+    if (listingDay < today) return "listed";
+  }
+  if (boaDate && toIstIsoDate(boaDate) <= today) return "allotment-out";
+  if (close && now > endOfIstDay(close)) return "closed";
+  if (open && now >= open) {
+    return close && toIstIsoDate(close) === today ? "closing-today" : "open";
+  }
+  if (open) return "upcoming";
+  return null;
+};
+
+// Open and Closing Today both still take bids
+export const isTakingBids = (phase: LifecyclePhase | null) =>
+  phase === "open" || phase === "closing-today";
+
+export const phaseInfo = (phase: LifecyclePhase) =>
+  LIFECYCLE_PHASES.find(({ value }) => value === phase) ?? LIFECYCLE_PHASES[0];
+
+// Tint for the IPO's table row or card
+export const phaseRowClassName = (ipo: Ipo, now: Date) => {
+  const phase = lifecyclePhase(ipo, now);
+  return phase ? phaseInfo(phase).rowClassName : "";
+};
+
+// Position in the lifecycle, for sorting; null when the phase is unknown
+export const phaseIndex = (phase: LifecyclePhase | null): number | null =>
+  phase === null
+    ? null
+    : LIFECYCLE_PHASES.findIndex(({ value }) => value === phase);
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import { Ipo } from "@/types";
+import { expectedGainPerAccount, planAllocations } from "./planner";
+import { ist } from "./testing";
+
+// A mainboard issue with one lot of ₹15,000 and a ₹30 GMP on ₹150
+const mainboard = (subscription: number | null): Ipo =>
+  ({
+    id: "acme",
+    baseName: "Acme",
+    segment: "Mainboard",
+    subscription,
+    price: 150,
+    gmp: 30,
+    lot: 100,
+    issueSize: 500,
+    open: ist("2026-01-05"),
+    close: ist("2026-01-07"),
+    boaDate: ist("2026-01-08"),
+    listing: ist("2026-01-12"),
+  }) as Ipo;
+
+describe("expectedGainPerAccount", () => {
+  it.each<
+    [string, number | null, "retail-min" | "retail-max", number, number | null]
+  >([
+    ["undersubscribed, full bid allotted", 0.8, "retail-max", 13, 39000],
+    ["oversubscribed, one lot by lottery", 4, "retail-min", 1, 750],
+    ["oversubscribed, extra lots add nothing", 4, "retail-max", 13, 750],
+    ["no subscription yet", null, "retail-min", 1, null],
+  ])("%s", (_, subscription, strategy, lots, expected) => {
+    expect(
+      expectedGainPerAccount(mainboard(subscription), strategy, lots)
+    ).toBe(expected);
+  });
+});
+
+describe("planAllocations", () => {
+  it("totals the expected gain, not the full-allotment gain", () => {
+    const plan = planAllocations(
+      [mainboard(10)],
+      { capital: 200000, accounts: 2, strategy: "retail-max" },
+      ist("2026-01-05T10:00")
+    );
+    const [entry] = plan.entries;
+    expect(entry.lotsPerAccount).toBe(13);
+    expect(entry.gainIfAllotted).toBe(13 * 100 * 30 * entry.applicants);
+    expect(entry.expectedGain).toBe(300 * entry.applicants);
+    expect(plan.expectedGain).toBe(entry.expectedGain);
+  });
+});
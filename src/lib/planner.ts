@@ -0,0 +1,238 @@
+import {
+  Ipo,
+  PlanEntry,
+  PlannerInputs,
+  PlannerResult,
+  PlannerStrategy,
+} from "@/types";
+import { estimateAllotment } from "./allotment";
+import { endOfIstDay } from "./dates";
+import { gmpPercent, minInvestment } from "./metrics";
+import { readStorage, writeStorage } from "./storage";
+
+const PLANNER_KEY = "planner";
+const PLANNER_VERSION = 1;
+
+// Mainboard category caps per application (SEBI ICDR)
+export const RETAIL_LIMIT = 200000;
+export const SMALL_HNI_LIMIT = 1000000;
+
+// Bids on SME issues start at two lots, the smallest HNI bid is one more
+const SME_INDIVIDUAL_LOTS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Refund/unblock lag assumed when only the listing or close date is known
+const UNBLOCK_FALLBACK_DAYS = 3;
+
+export const PLANNER_STRATEGIES: {
+  value: PlannerStrategy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "retail-min",
+    label: "Retail, minimum",
+    description:
+      "Smallest retail bid per account. Oversubscribed retail books allot at most one lot per applicant, so this gives the best odds per rupee.",
+  },
+  {
+    value: "retail-max",
+    label: "Retail, maximum",
+    description: `As many lots as fit under ${RETAIL_LIMIT / 100000} lakh per account.`,
+  },
+  {
+    value: "small-hni",
+    label: "Small HNI, minimum",
+    description: `Smallest bid above the retail cap (up to ${SMALL_HNI_LIMIT / 100000} lakh).`,
+  },
+];
+
+export const DEFAULT_PLANNER_INPUTS: PlannerInputs = {
+  capital: 200000,
+  accounts: 1,
+  strategy: "retail-min",
+};
+
+export const readPlannerInputs = (): PlannerInputs => ({
+  ...DEFAULT_PLANNER_INPUTS,
+  ...readStorage<PlannerInputs>(PLANNER_KEY, PLANNER_VERSION),
+});
+
+export const writePlannerInputs = (inputs: PlannerInputs) =>
+  writeStorage(PLANNER_KEY, PLANNER_VERSION, inputs);
+
+/**
+ * Lots one account bids for under a strategy, or null when the issue has
+ * no valid bid in that category (e.g. one lot already exceeds the retail
+ * cap).
+ */
+export const lotsPerAccount = (
+  ipo: Ipo,
+  strategy: PlannerStrategy
+): number | null => {
+  const lotAmount = minInvestment(ipo);
+  if (lotAmount === null || lotAmount <= 0) return null;
+
+  if (ipo.segment === "SME") {
+    return strategy === "small-hni"
+      ? SME_INDIVIDUAL_LOTS + 1
+      : SME_INDIVIDUAL_LOTS;
+  }
+  const retailMax = Math.floor(RETAIL_LIMIT / lotAmount);
+  switch (strategy) {
+    case "retail-min":
+      return retailMax >= 1 ? 1 : null;
+    case "retail-max":
+      return retailMax >= 1 ? retailMax : null;
+    case "small-hni":
+      return (retailMax + 1) * lotAmount <= SMALL_HNI_LIMIT
+        ? retailMax + 1
+        : null;
+  }
+};
+
+/**
+ * Expected gain for one account bidding `lots` lots. Undersubscribed books
+ * allot every bid in full; oversubscribed ones are a lottery that gives
+ * each winner one minimum bid of the category, so a retail bid above the
+ * minimum doesn't add to the gain. Null without a subscription figure.
+ */
+export const expectedGainPerAccount = (
+  ipo: Ipo,
+  strategy: PlannerStrategy,
+  lots: number
+): number | null => {
+  const estimate = estimateAllotment(ipo);
+  if (!estimate || ipo.gmp === null || ipo.lot === null) return null;
+  const allotted =
+    estimate.probability < 1 && strategy === "retail-max"
+      ? (lotsPerAccount(ipo, "retail-min") ?? lots)
+      : lots;
+  return estimate.probability * allotted * ipo.lot * ipo.gmp;
+};
+
+/**
+ * When the blocked money comes back: the end of the allotment day, when
+ * unsuccessful bids are unblocked. Falls back to a few days before listing,
+ * or after close, when the allotment date isn't announced.
+ */
+export const unblockDate = ({ boaDate, listing, close }: Ipo): Date | null => {
+  if (boaDate) return endOfIstDay(boaDate);
+  if (listing) {
+    return endOfIstDay(new Date(listing.getTime() - DAY_MS));
+  }
+  if (close) {
+    return endOfIstDay(
+      new Date(close.getTime() + UNBLOCK_FALLBACK_DAYS * DAY_MS)
+    );
+  }
+  return null;
+};
+
+// Capital blocked by `entries` at any moment within [from, until)
+const peakBlocked = (entries: PlanEntry[], from: number, until: number) => {
+  const overlapping = entries.filter(
+    (entry) =>
+      entry.from.getTime() < until &&
+      (entry.until === null || entry.until.getTime() > from)
+  );
+  // Usage only rises when an overlapping window starts
+  const checkpoints = [
+    from,
+    ...overlapping
+      .map((entry) => entry.from.getTime())
+      .filter((start) => start > from),
+  ];
+  return Math.max(
+    0,
+    ...checkpoints.map((at) =>
+      overlapping
+        .filter(
+          (entry) =>
+            entry.from.getTime() <= at &&
+            (entry.until === null || entry.until.getTime() > at)
+        )
+        .reduce((sum, entry) => sum + entry.blocked, 0)
+    )
+  );
+};
+
+/**
+ * Proposes bids across open and upcoming IPOs.
+ *
+ * IPOs are taken greedily by GMP % (best first). Each bid blocks its
+ * amount from the later of now and the open date until the money is
+ * unblocked after allotment (`unblockDate`), so the same capital can fund
+ * a later issue whose window starts after an earlier one's allotment. An
+ * IPO gets as many of the accounts as the free capital covers over its
+ * whole window.
+ */
+export const planAllocations = (
+  ipos: Ipo[],
+  { capital, accounts, strategy }: PlannerInputs,
+  now: Date
+): PlannerResult => {
+  const entries: PlanEntry[] = [];
+  const skipped: PlannerResult["skipped"] = [];
+
+  const candidates = ipos
+    .filter(({ close }) => close && now <= endOfIstDay(close))
+    .sort(
+      (a, b) => (gmpPercent(b) ?? -Infinity) - (gmpPercent(a) ?? -Infinity)
+    );
+
+  for (const ipo of candidates) {
+    if (ipo.gmp === null || ipo.gmp <= 0) {
+      skipped.push({ ipo, reason: "No positive GMP" });
+      continue;
+    }
+    const lots = lotsPerAccount(ipo, strategy);
+    const lotAmount = minInvestment(ipo);
+    if (lots === null || lotAmount === null) {
+      skipped.push({
+        ipo,
+        reason:
+          lotAmount === null
+            ? "Price or lot size unknown"
+            : "No valid bid in this category",
+      });
+      continue;
+    }
+
+    const from = new Date(Math.max(now.getTime(), ipo.open?.getTime() ?? 0));
+    const until = unblockDate(ipo);
+    const free =
+      capital -
+      peakBlocked(entries, from.getTime(), until?.getTime() ?? Infinity);
+    const perAccount = lots * lotAmount;
+    const applicants = Math.min(accounts, Math.floor(free / perAccount));
+    if (applicants < 1) {
+      skipped.push({ ipo, reason: "Not enough free capital in its window" });
+      continue;
+    }
+
+    const expectedPerAccount = expectedGainPerAccount(ipo, strategy, lots);
+    entries.push({
+      ipo,
+      lotsPerAccount: lots,
+      applicants,
+      blocked: perAccount * applicants,
+      from,
+      until,
+      gainIfAllotted: lots * (ipo.lot as number) * ipo.gmp * applicants,
+      expectedGain:
+        expectedPerAccount === null ? null : expectedPerAccount * applicants,
+    });
+  }
+
+  entries.sort((a, b) => a.from.getTime() - b.from.getTime());
+  return {
+    entries,
+    skipped,
+    peakBlocked: peakBlocked(entries, now.getTime(), Infinity),
+    expectedGain: entries.reduce(
+      (sum, entry) => sum + (entry.expectedGain ?? 0),
+      0
+    ),
+  };
+};
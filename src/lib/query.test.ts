@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import { Ipo } from "@/types";
+import { fuzzyMatch, matchesQuery, parseQuery } from "./query";
+import { parseIpoName } from "./ipoName";
+import { ist } from "./testing";
+
+// The value of the single compare clause `input` parses to, as an IST day
+const comparedDay = (input: string, now: Date) => {
+  const { clauses, errors } = parseQuery(input, now);
+  expect(errors).toEqual([]);
+  const [clause] = clauses;
+  return clause.kind === "compare" ? clause.value : null;
+};
+
+describe("parseQuery dates", () => {
+  it.each([
+    ["open>=5-Jan", "2025-12-29T10:00", "2026-01-05"],
+    ["close<28-Dec", "2026-01-03T10:00", "2025-12-28"],
+    ["listing=15-Jun", "2025-06-01T10:00", "2025-06-15"],
+    ["open>=2026-01-05", "2025-12-29T10:00", "2026-01-05"],
+    ["open>=2025-01-05", "2025-12-29T10:00", "2025-01-05"],
+    ["open>=today", "2025-12-29T10:00", "2025-12-29"],
+    ["open<=today+5", "2025-12-29T10:00", "2026-01-03"],
+  ])("%s on %s is %s", (input, now, expected) => {
+    expect(comparedDay(input, ist(now))).toBe(ist(expected).getTime());
+  });
+
+  it.each(["open>=32-Jan", "open>=2025-02-30", "open>=someday"])(
+    "rejects %s",
+    (input) => {
+      expect(parseQuery(input, ist("2025-12-29T10:00")).errors).toHaveLength(1);
+    }
+  );
+});
+
+describe("fuzzyMatch", () => {
+  it.each<[string, string, boolean]>([
+    ["Tata Technologies", "tata", true],
+    ["Tata Technologies", "technolgies", true],
+    ["Tata Technologies", "techn", true],
+    ["Tata Technologies", "data", false],
+    ["Tata Technologies", "tita", false],
+    ["Indo Farm Equipment", "equipmnt", true],
+    ["Indo Farm Equipment", "farmequip", true],
+    ["Leo Dry Fruits and Spices", "dry fruits", true],
+    ["Unimech Aerospace", "aerospice", true],
+    ["Unimech Aerospace", "zerospace", false],
+  ])("%s / %s → %s", (name, word, expected) => {
+    expect(fuzzyMatch(name, word)).toBe(expected);
+  });
+});
+
+describe("matchesQuery text terms", () => {
+  const ipo = (name: string) => ({ name, ...parseIpoName(name) }) as Ipo;
+  const now = ist("2025-12-29T10:00");
+  const matches = (input: string, name: string) =>
+    matchesQuery(ipo(name), parseQuery(input, now), now);
+
+  it.each<[string, string, boolean]>([
+    ["open", "Indo Farm Equipment Open (Sub:29.68x)", false],
+    ["open", "Open Systems Ltd Close (Sub:2.5x)", true],
+    ["29", "Indo Farm Equipment Open (Sub:29.68x)", false],
+    ['"sub"', "Unimech Aerospace Close (Sub:175.31x)", false],
+    ["sme", "Citichem India NSE SME Close (Sub:166.16x)", false],
+    ["citichem", "Citichem India NSE SME Close (Sub:166.16x)", true],
+    ["-indo", "Indo Farm Equipment Open (Sub:29.68x)", false],
+  ])("%s against %s → %s", (input, name, expected) => {
+    expect(matches(input, name)).toBe(expected);
+  });
+});
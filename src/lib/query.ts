@@ -0,0 +1,398 @@
+import {
+  ComparisonOp,
+  Ipo,
+  IpoSegment,
+  LifecyclePhase,
+  ParsedQuery,
+  QueryClause,
+  QueryError,
+  QueryField,
+  QuerySuggestion,
+} from "@/types";
+import { parseDate, startOfIstDay } from "./dates";
+import { LIFECYCLE_PHASES, lifecyclePhase } from "./phase";
+import { gmpPercent } from "./metrics";
+
+/**
+ * A small query language for the search box. Terms are separated by spaces
+ * and must all match:
+ *
+ *   tata                 fuzzy match on the IPO name
+ *   "dry fruits"         exact phrase in the name
+ *   gmp>50  gmp%>=20     comparisons on price, gmp, gmp%, lot, size (crore)
+ *   open>=2025-01-06     dates as YYYY-MM-DD, DD-MMM, today or today+N
+ *   status:open          lifecycle phase: upcoming, open, closing-today,
+ *                        closed, allotment-out, listing-today, listed
+ *   segment:sme          sme or mainboard
+ *   -segment:sme  -tata  a leading "-" negates any term
+ */
+
+interface FieldSpec {
+  field: QueryField;
+  label: string;
+  type: "number" | "date";
+}
+
+const FIELDS: Record<string, FieldSpec> = {
+  price: { field: "price", label: "Issue price (₹)", type: "number" },
+  gmp: { field: "gmp", label: "GMP (₹)", type: "number" },
+  "gmp%": { field: "gmpPercent", label: "GMP % of price", type: "number" },
+  lot: { field: "lot", label: "Lot size (shares)", type: "number" },
+  size: { field: "size", label: "Issue size (₹ Cr)", type: "number" },
+  open: { field: "open", label: "Open date", type: "date" },
+  close: { field: "close", label: "Close date", type: "date" },
+  allotment: { field: "allotment", label: "Allotment date", type: "date" },
+  listing: { field: "listing", label: "Listing date", type: "date" },
+  updated: { field: "updated", label: "GMP updated date", type: "date" },
+};
+
+const SEGMENTS: Record<string, IpoSegment> = {
+  sme: "SME",
+  mainboard: "Mainboard",
+  main: "Mainboard",
+};
+
+const PHASES = Object.fromEntries(
+  LIFECYCLE_PHASES.map(({ value }) => [value, value])
+) as Record<string, LifecyclePhase>;
+
+const COMPARISON = /^([a-z%]+)(>=|<=|>|<|=|:)(.*)$/i;
+
+interface Token {
+  text: string;
+  negate: boolean;
+  quoted: boolean;
+  start: number;
+  end: number;
+}
+
+// Splits the input on whitespace, keeping quoted phrases together
+const tokenize = (input: string, errors: QueryError[]): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const negate = input[i] === "-" && i + 1 < input.length;
+    if (negate) i++;
+
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) {
+        errors.push({
+          message: "Missing closing quote",
+          start,
+          end: input.length,
+        });
+        tokens.push({
+          text: input.slice(i + 1),
+          negate,
+          quoted: true,
+          start,
+          end: input.length,
+        });
+        break;
+      }
+      tokens.push({
+        text: input.slice(i + 1, close),
+        negate,
+        quoted: true,
+        start,
+        end: close + 1,
+      });
+      i = close + 1;
+      continue;
+    }
+
+    while (i < input.length && !/\s/.test(input[i])) i++;
+    tokens.push({
+      text: input.slice(negate ? start + 1 : start, i),
+      negate,
+      quoted: false,
+      start,
+      end: i,
+    });
+  }
+  return tokens;
+};
+
+const parseAmount = (raw: string): number | null => {
+  const match = raw.match(/^(-?\d+(?:\.\d+)?)\s*(%|cr|k|l|lakh)?$/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  switch (match[2]?.toLowerCase()) {
+    case "k":
+      return value * 1000;
+    case "l":
+    case "lakh":
+      return value * 100000;
+    default:
+      return value;
+  }
+};
+
+// Start of the given Asia/Kolkata day, as a timestamp. DD-MMM takes the
+// year closest to `now`, so `open>=5-Jan` in late December means next year
+const parseDay = (raw: string, now: Date): number | null => {
+  const relative = raw.match(/^today([+-]\d+)?$/i);
+  if (relative) {
+    const offset = Number(relative[1] ?? 0);
+    return startOfIstDay(now).getTime() + offset * 24 * 60 * 60 * 1000;
+  }
+  const date = parseDate(raw, now);
+  return date ? startOfIstDay(date).getTime() : null;
+};
+
+const parseToken = (
+  token: Token,
+  now: Date
+): QueryClause | Omit<QueryError, "start" | "end"> => {
+  const { text, negate } = token;
+  if (token.quoted) {
+    return { kind: "text", value: text, phrase: true, negate };
+  }
+
+  const comparison = text.match(COMPARISON);
+  if (!comparison) {
+    return { kind: "text", value: text, phrase: false, negate };
+  }
+
+  const [, rawKey, rawOp, rawValue] = comparison;
+  const key = rawKey.toLowerCase();
+  const value = rawValue.toLowerCase();
+
+  if (key === "status" || key === "phase") {
+    if (rawOp !== ":" && rawOp !== "=") {
+      return { message: `Use ${key}:<phase>` };
+    }
+    const phase = PHASES[value];
+    return phase
+      ? { kind: "status", value: phase, negate }
+      : { message: `Unknown status "${rawValue}"` };
+  }
+  if (key === "segment") {
+    const segment = SEGMENTS[value];
+    return segment
+      ? { kind: "segment", value: segment, negate }
+      : { message: `Unknown segment "${rawValue}"` };
+  }
+
+  const spec = FIELDS[key];
+  if (!spec) {
+    // Something like "a:b" that isn't a known field is plain text
+    return rawOp === ":"
+      ? { kind: "text", value: text, phrase: false, negate }
+      : { message: `Unknown field "${rawKey}"` };
+  }
+  if (!rawValue) {
+    return { message: `Missing value for ${rawKey}` };
+  }
+
+  const parsed =
+    spec.type === "date" ? parseDay(rawValue, now) : parseAmount(rawValue);
+  if (parsed === null) {
+    return {
+      message:
+        spec.type === "date"
+          ? `"${rawValue}" is not a date (try 2025-01-06, 6-Jan or today+3)`
+          : `"${rawValue}" is not a number`,
+    };
+  }
+  const op: ComparisonOp = rawOp === ":" ? "=" : (rawOp as ComparisonOp);
+  return { kind: "compare", field: spec.field, op, value: parsed, negate };
+};
+
+export const parseQuery = (input: string, now = new Date()): ParsedQuery => {
+  const errors: QueryError[] = [];
+  const clauses: QueryClause[] = [];
+  for (const token of tokenize(input, errors)) {
+    if (!token.text) continue;
+    const result = parseToken(token, now);
+    if ("kind" in result) {
+      clauses.push(result);
+    } else {
+      errors.push({ ...result, start: token.start, end: token.end });
+    }
+  }
+  errors.sort((a, b) => a.start - b.start);
+  return { clauses, errors };
+};
+
+// Lower-case, entity-free, punctuation-free words for fuzzy matching
+export const normalizeText = (text: string): string =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+/**
+ * Whether a search word matches a name: as a substring once punctuation and
+ * spacing are ignored, or as a word (or word prefix) within a small typo
+ * budget: one edit from 5 characters, two from 8, and never in the first
+ * letter, so "data" doesn't find "Tata".
+ */
+export const fuzzyMatch = (name: string, word: string): boolean => {
+  const haystack = normalizeText(name);
+  const needle = normalizeText(word);
+  if (!needle) return true;
+  if (haystack.replace(/ /g, "").includes(needle.replace(/ /g, ""))) {
+    return true;
+  }
+  const budget = needle.length >= 8 ? 2 : needle.length >= 5 ? 1 : 0;
+  if (!budget) return false;
+  return haystack
+    .split(" ")
+    .some(
+      (word) =>
+        word[0] === needle[0] &&
+        (editDistance(word.slice(0, needle.length), needle) <= budget ||
+          editDistance(word, needle) <= budget)
+    );
+};
+
+const fieldValue = (ipo: Ipo, field: QueryField): number | null => {
+  const day = (date: Date | null) =>
+    date ? startOfIstDay(date).getTime() : null;
+  switch (field) {
+    case "price":
+      return ipo.price;
+    case "gmp":
+      return ipo.gmp;
+    case "gmpPercent":
+      return gmpPercent(ipo);
+    case "lot":
+      return ipo.lot;
+    case "size":
+      return ipo.issueSize;
+    case "open":
+      return day(ipo.open);
+    case "close":
+      return day(ipo.close);
+    case "allotment":
+      return day(ipo.boaDate);
+    case "listing":
+      return day(ipo.listing);
+    case "updated":
+      return day(ipo.gmpUpdated);
+  }
+};
+
+const compare = (actual: number, op: ComparisonOp, expected: number) => {
+  switch (op) {
+    case "=":
+      return actual === expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+  }
+};
+
+const matchesClause = (ipo: Ipo, clause: QueryClause, now: Date): boolean => {
+  switch (clause.kind) {
+    // The base name, so "open" or "29" don't hit the status and
+    // subscription suffixes of the raw name
+    case "text":
+      return clause.phrase
+        ? normalizeText(ipo.baseName).includes(normalizeText(clause.value))
+        : fuzzyMatch(ipo.baseName, clause.value);
+    case "status":
+      return lifecyclePhase(ipo, now) === clause.value;
+    case "segment":
+      return ipo.segment === clause.value;
+    case "compare": {
+      const value = fieldValue(ipo, clause.field);
+      return value !== null && compare(value, clause.op, clause.value);
+    }
+  }
+};
+
+// Every clause must match; negated clauses must not
+export const matchesQuery = (
+  ipo: Ipo,
+  query: ParsedQuery,
+  now: Date
+): boolean =>
+  query.clauses.every(
+    (clause) => matchesClause(ipo, clause, now) !== clause.negate
+  );
+
+const QUALIFIERS: QuerySuggestion[] = [
+  ...Object.entries(FIELDS).map(([key, { label }]) => ({
+    label: `${key}>`,
+    description: label,
+    value: `${key}>`,
+  })),
+  { label: "status:", description: "Lifecycle phase", value: "status:" },
+  { label: "segment:", description: "SME or Mainboard", value: "segment:" },
+];
+
+const VALUE_SUGGESTIONS: Record<string, QuerySuggestion[]> = {
+  status: LIFECYCLE_PHASES.map(({ value, label }) => ({
+    label: `status:${value}`,
+    description: label,
+    value: `status:${value}`,
+  })),
+  segment: [
+    { label: "segment:sme", description: "SME issues", value: "segment:sme" },
+    {
+      label: "segment:mainboard",
+      description: "Mainboard issues",
+      value: "segment:mainboard",
+    },
+  ],
+};
+
+/**
+ * Autocomplete for the term being typed at the end of the input. Returns
+ * suggestions whose `value` is the whole input with that term completed.
+ */
+export const suggestQuery = (input: string, limit = 6): QuerySuggestion[] => {
+  const match = input.match(/(^|\s)(-?)([^\s"]*)$/);
+  if (!match) return [];
+  const [, , negate, term] = match;
+  if (!term) return [];
+  const prefix = input.slice(0, input.length - term.length - negate.length);
+  const lower = term.toLowerCase();
+
+  const qualifier = lower.match(/^([a-z]+):/);
+  const candidates = qualifier
+    ? (VALUE_SUGGESTIONS[qualifier[1]] ?? [])
+    : QUALIFIERS;
+
+  return candidates
+    .filter(({ value }) => value.startsWith(lower) && value !== lower)
+    .slice(0, limit)
+    .map((suggestion) => ({
+      ...suggestion,
+      value: `${prefix}${negate}${suggestion.value}`,
+    }));
+};
@@ -0,0 +1,92 @@
+import { CacheValidators, DataSource, DataSourceResponse } from "@/types";
+import {
+  DataSourceError,
+  isAbortError,
+  isRetryable,
+  toDataSourceError,
+} from "./errors";
+
+export interface RetryOptions {
+  // Aborting this cancels the current attempt and any pending retry
+  signal?: AbortSignal;
+  validators?: CacheValidators | null;
+  retries?: number;
+  timeoutMs?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+// Resolves after `ms`, or rejects with an AbortError when `signal` aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Exponential backoff with jitter: the delay doubles on every attempt, is
+ * capped at `maxDelayMs`, and a random half of it is dropped so clients that
+ * failed together don't retry together.
+ */
+export const backoffDelay = (
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number
+) => {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+/**
+ * Fetches from a data source with a per-attempt timeout and retries with
+ * backoff for retryable failures. Throws the last `DataSourceError` once
+ * retries are exhausted, or an AbortError if `signal` was aborted.
+ */
+export const fetchWithRetry = async (
+  source: DataSource,
+  {
+    signal,
+    validators,
+    retries = 3,
+    timeoutMs = 15000,
+    baseDelayMs = 1000,
+    maxDelayMs = 15000,
+  }: RetryOptions = {}
+): Promise<DataSourceResponse> => {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timeoutId = setTimeout(
+      () => controller.abort(new DOMException("Timed out", "TimeoutError")),
+      timeoutMs
+    );
+
+    try {
+      return await source.fetchData({ signal: controller.signal, validators });
+    } catch (err) {
+      if (signal?.aborted) throw signal.reason;
+      const error =
+        isAbortError(err) || controller.signal.aborted
+          ? new DataSourceError(
+              "timeout",
+              `No response within ${timeoutMs / 1000}s`
+            )
+          : toDataSourceError(err);
+      if (attempt >= retries || !isRetryable(error)) throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    await sleep(backoffDelay(attempt, baseDelayMs, maxDelayMs), signal);
+  }
+};
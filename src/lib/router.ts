@@ -0,0 +1,42 @@
+import { Route } from "@/types";
+
+// Fired on same-document navigations, which don't raise `popstate`
+const NAVIGATE_EVENT = "ipo-gmp-pro:navigate";
+
+const IPO_PATH = /^\/ipo\/([^/]+)\/?$/;
+
+export const ipoPath = (id: string) => `/ipo/${encodeURIComponent(id)}`;
+
+export const PLANNER_PATH = "/planner";
+
+// Unknown paths render the dashboard rather than a 404
+export const matchRoute = (pathname: string): Route => {
+  if (pathname.replace(/\/$/, "") === PLANNER_PATH) return { name: "planner" };
+  const match = IPO_PATH.exec(pathname);
+  if (!match) return { name: "dashboard" };
+  try {
+    return { name: "ipo", id: decodeURIComponent(match[1]) };
+  } catch {
+    // Malformed escape sequence in a hand-typed URL
+    return { name: "dashboard" };
+  }
+};
+
+export const currentRoute = (): Route => matchRoute(window.location.pathname);
+
+// Pushes `path` (which may carry a query string) and notifies `useRoute`
+export const navigate = (path: string) => {
+  window.history.pushState(null, "", path);
+  window.scrollTo(0, 0);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+};
+
+// Subscribes to route changes from `navigate` and back/forward
+export const onRouteChange = (listener: VoidFunction) => {
+  window.addEventListener("popstate", listener);
+  window.addEventListener(NAVIGATE_EVENT, listener);
+  return () => {
+    window.removeEventListener("popstate", listener);
+    window.removeEventListener(NAVIGATE_EVENT, listener);
+  };
+};
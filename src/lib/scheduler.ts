@@ -0,0 +1,62 @@
+import { Ipo } from "@/types";
+import { istParts } from "./dates";
+import { isTakingBids, lifecyclePhase } from "./phase";
+import { readStorage, writeStorage } from "./storage";
+
+const INTERVAL_KEY = "refresh-interval";
+const INTERVAL_VERSION = 1;
+
+export const REFRESH_INTERVAL_OPTIONS = [1, 2, 5, 10, 15, 30, 60].map(
+  (minutes) => minutes * 60 * 1000
+);
+export const DEFAULT_REFRESH_INTERVAL = 5 * 60 * 1000;
+// Never poll more often than this, however the interval is shortened
+const MIN_REFRESH_INTERVAL = 60 * 1000;
+
+// NSE/BSE equity session, 09:15 to 15:30 Asia/Kolkata, Monday to Friday
+const MARKET_OPEN_MINUTES = 9 * 60 + 15;
+const MARKET_CLOSE_MINUTES = 15 * 60 + 30;
+
+export const readRefreshInterval = (): number => {
+  const stored = readStorage<number>(INTERVAL_KEY, INTERVAL_VERSION);
+  return stored !== null && REFRESH_INTERVAL_OPTIONS.includes(stored)
+    ? stored
+    : DEFAULT_REFRESH_INTERVAL;
+};
+
+export const writeRefreshInterval = (intervalMs: number) =>
+  writeStorage(INTERVAL_KEY, INTERVAL_VERSION, intervalMs);
+
+// Whether the Indian equity market is in session (holidays aren't known)
+export const isMarketOpen = (now: Date): boolean => {
+  const { weekday, hours, minutes } = istParts(now);
+  const minuteOfDay = hours * 60 + minutes;
+  return (
+    weekday >= 1 &&
+    weekday <= 5 &&
+    minuteOfDay >= MARKET_OPEN_MINUTES &&
+    minuteOfDay < MARKET_CLOSE_MINUTES
+  );
+};
+
+// Whether any IPO is currently taking bids
+export const hasOpenIpo = (ipos: Ipo[], now: Date): boolean =>
+  ipos.some(
+    (ipo) => ipo.status === "Open" || isTakingBids(lifecyclePhase(ipo, now))
+  );
+
+/**
+ * The delay until the next automatic refresh. The user's interval is halved
+ * during market hours and halved again while any IPO is open, since that is
+ * when GMP and subscription figures move, but never below one minute.
+ */
+export const refreshDelay = (
+  baseIntervalMs: number,
+  now: Date,
+  anyIpoOpen: boolean
+): number => {
+  let delay = baseIntervalMs;
+  if (isMarketOpen(now)) delay /= 2;
+  if (anyIpoOpen) delay /= 2;
+  return Math.max(MIN_REFRESH_INTERVAL, delay);
+};
@@ -0,0 +1,56 @@
+// How often an open tab checks for a newly deployed build
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Registers `/sw.js` in production builds. `onUpdate` is called with an
+ * `apply` function once a new build has installed and is waiting; calling it
+ * activates the new worker and reloads the page.
+ */
+export const registerServiceWorker = (
+  onUpdate: (apply: VoidFunction) => void
+) => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  const promptFor = (worker: ServiceWorker) =>
+    onUpdate(() => worker.postMessage({ type: "SKIP_WAITING" }));
+
+  let reloading = false;
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  const register = async () => {
+    try {
+      const registration = await navigator.serviceWorker.register("/sw.js");
+
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        promptFor(registration.waiting);
+      }
+      registration.addEventListener("updatefound", () => {
+        const installing = registration.installing;
+        installing?.addEventListener("statechange", () => {
+          // Without a controller this is the first install, not an update
+          if (
+            installing.state === "installed" &&
+            navigator.serviceWorker.controller
+          ) {
+            promptFor(installing);
+          }
+        });
+      });
+
+      setInterval(() => registration.update(), UPDATE_CHECK_INTERVAL);
+    } catch {
+      // Not fatal: the app still works online, just without offline support
+    }
+  };
+
+  // Don't compete with the first paint for bandwidth
+  if (document.readyState === "complete") {
+    register();
+  } else {
+    window.addEventListener("load", register, { once: true });
+  }
+};
@@ -0,0 +1,40 @@
+/**
+ * Small versioned wrapper around localStorage. Every entry is stored as
+ * `{ version, savedAt, value }`; entries written by another version of the
+ * app are ignored so a shape change never crashes on stale data.
+ */
+
+const PREFIX = "ipo-gmp-pro:";
+
+interface StoredEntry<T> {
+  version: number;
+  savedAt: number;
+  value: T;
+}
+
+export const readStorage = <T>(key: string, version: number): T | null => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    if (!raw) return null;
+    const entry = JSON.parse(raw) as StoredEntry<T>;
+    return entry.version === version ? entry.value : null;
+  } catch {
+    // Storage disabled (private mode) or corrupted JSON
+    return null;
+  }
+};
+
+export const writeStorage = <T>(
+  key: string,
+  version: number,
+  value: T
+): boolean => {
+  try {
+    const entry: StoredEntry<T> = { version, savedAt: Date.now(), value };
+    localStorage.setItem(PREFIX + key, JSON.stringify(entry));
+    return true;
+  } catch {
+    // Quota exceeded or storage disabled; callers keep working in memory
+    return false;
+  }
+};
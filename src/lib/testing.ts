@@ -0,0 +1,5 @@
+// Helpers shared by the unit tests (`*.test.ts`)
+
+// An Asia/Kolkata wall-clock time as an instant, e.g. ist("2025-12-30")
+export const ist = (local: string) =>
+  new Date(`${local}${local.length === 10 ? "T00:00" : ""}:00+05:30`);
@@ -0,0 +1,148 @@
+import {
+  IpoFilters,
+  IpoSegment,
+  LifecyclePhase,
+  NumberRange,
+  SortBy,
+  SortKey,
+  SortOrder,
+  ViewMode,
+  ViewState,
+} from "@/types";
+import { EMPTY_FILTERS } from "./filters";
+import { LIFECYCLE_PHASES } from "./phase";
+import { MAX_SORT_KEYS } from "./utils";
+import { normalizeTag } from "./annotations";
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  search: "",
+  sort: [{ by: SortBy.OPEN, order: SortOrder.DESC }],
+  filters: EMPTY_FILTERS,
+  watchlistOnly: false,
+  selected: null,
+  view: null,
+};
+
+// Query-string key for each range filter
+const RANGE_PARAMS: ["gmp" | "gmpPercent" | "price" | "issueSize", string][] = [
+  ["gmp", "gmp"],
+  ["gmpPercent", "gmpPct"],
+  ["price", "price"],
+  ["issueSize", "size"],
+];
+
+const SEGMENTS: IpoSegment[] = ["Mainboard", "SME"];
+
+// Returns `value` when it is one of `allowed`, otherwise `fallback`
+const oneOf = <T extends string>(
+  value: string | null,
+  allowed: readonly T[],
+  fallback: T
+): T => (allowed.includes(value as T) ? (value as T) : fallback);
+
+const parseBound = (value: string) => {
+  if (!value) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+// Ranges are written as `min..max`, with either side optional
+const parseRange = (value: string | null): NumberRange => {
+  if (!value) return EMPTY_FILTERS.gmp;
+  const [min = "", max = ""] = value.split("..");
+  return { min: parseBound(min), max: parseBound(max) };
+};
+
+const formatRange = ({ min, max }: NumberRange) =>
+  min === null && max === null ? null : `${min ?? ""}..${max ?? ""}`;
+
+/**
+ * Sort keys are written as `sort=open:desc,gmp:desc`. A key without an
+ * order takes the one from `order`, so older single-column links still
+ * work. Unknown columns are skipped and repeated ones keep the first.
+ */
+const parseSort = (sort: string | null, order: string | null): SortKey[] => {
+  const fallbackOrder = oneOf(order, Object.values(SortOrder), SortOrder.DESC);
+  const keys: SortKey[] = [];
+  for (const part of (sort ?? "").split(",")) {
+    const [by, direction] = part.split(":");
+    if (!Object.values(SortBy).includes(by as SortBy)) continue;
+    if (keys.some((key) => key.by === by)) continue;
+    keys.push({
+      by: by as SortBy,
+      order: oneOf(direction ?? null, Object.values(SortOrder), fallbackOrder),
+    });
+  }
+  return keys.length ? keys.slice(0, MAX_SORT_KEYS) : DEFAULT_VIEW_STATE.sort;
+};
+
+const formatSort = (sort: SortKey[]) =>
+  sort.map(({ by, order }) => `${by}:${order}`).join(",");
+
+/**
+ * Reads the view state from a query string. Unknown or malformed values
+ * fall back to their defaults rather than failing, since URLs are typed
+ * and edited by hand.
+ */
+export const readViewState = (search: string): ViewState => {
+  const params = new URLSearchParams(search);
+  const phases = (params.get("phase") ?? "")
+    .split(",")
+    .filter((phase): phase is LifecyclePhase =>
+      LIFECYCLE_PHASES.some(({ value }) => value === phase)
+    );
+  const segment = params.get("segment");
+
+  const filters: IpoFilters = {
+    ...EMPTY_FILTERS,
+    segment: SEGMENTS.find((value) => value === segment) ?? null,
+    phases: [...new Set(phases)],
+    hasSubscription: params.get("sub") === "1",
+    tags: [
+      ...new Set(
+        params.getAll("tag").flatMap((tag) => normalizeTag(tag) ?? [])
+      ),
+    ],
+  };
+  for (const [key, param] of RANGE_PARAMS) {
+    filters[key] = parseRange(params.get(param));
+  }
+
+  const view = params.get("view");
+  return {
+    search: params.get("q") ?? "",
+    sort: parseSort(params.get("sort"), params.get("order")),
+    filters,
+    watchlistOnly: params.get("watchlist") === "1",
+    selected: params.get("ipo") || null,
+    view: Object.values(ViewMode).find((mode) => mode === view) ?? null,
+  };
+};
+
+/**
+ * Serializes the view state to a query string (with the leading `?`, or
+ * empty). Defaults are left out so the plain dashboard keeps a clean URL.
+ */
+export const writeViewState = (state: ViewState): string => {
+  const params = new URLSearchParams();
+  if (state.search) params.set("q", state.search);
+  const sort = formatSort(state.sort);
+  if (sort !== formatSort(DEFAULT_VIEW_STATE.sort)) params.set("sort", sort);
+  const { filters } = state;
+  if (filters.segment) params.set("segment", filters.segment);
+  if (filters.phases.length) params.set("phase", filters.phases.join(","));
+  for (const [key, param] of RANGE_PARAMS) {
+    const range = formatRange(filters[key]);
+    if (range) params.set(param, range);
+  }
+  if (filters.hasSubscription) params.set("sub", "1");
+  // Repeated rather than comma-joined, since tags are free text
+  for (const tag of filters.tags) params.append("tag", tag);
+  if (state.watchlistOnly) params.set("watchlist", "1");
+  if (state.selected) params.set("ipo", state.selected);
+  if (state.view) params.set("view", state.view);
+
+  // Commas and colons are legal in a query string and read better unescaped
+  const query = params.toString().replace(/%2C/g, ",").replace(/%3A/g, ":");
+  return query ? `?${query}` : "";
+};
@@ -1,65 +1,64 @@
-import { GmpDataItem, SortBy, SortOrder } from "@/types";
+import { Ipo, SortBy, SortKey, SortOrder } from "@/types";
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { estimateAllotment } from "./allotment";
+import { lifecyclePhase, phaseIndex } from "./phase";
+import {
+  gmpPercent,
+  lotGain,
+  minInvestment,
+  smeMinApplication,
+} from "./metrics";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-// Format price string to INR
-export const formatPrice = (price: string | null): string => {
-  if (!price || price === "--") return "-";
-  const numPrice = parseFloat(price.replace(/[^0-9.-]+/g, ""));
-  return isNaN(numPrice) ? "-" : priceFormatter.format(numPrice);
+// Format a rupee amount as INR
+export const formatPrice = (price: number | null): string => {
+  return price === null ? "-" : priceFormatter.format(price);
 };
 
-// Format IPO size (handles Cr/Crore suffix)
-export const formatIPOSize = (size: string): string => {
-  if (!size || size === "--") return "-";
-  const decodedSize = decodeHTML(size);
-  const numMatch = decodedSize.match(/[\d,]+\.?\d*/);
-  if (!numMatch) return decodedSize;
+// Format a percentage with one decimal, e.g. "20.9%"
+export const formatPercent = (value: number | null): string => {
+  return value === null ? "-" : `${value.toFixed(1)}%`;
+};
 
-  const numValue = parseFloat(numMatch[0].replace(/,/g, ""));
-  return `${priceFormatter.format(numValue)} Cr`;
+// Format an issue size given in crore
+export const formatIPOSize = (size: number | null): string => {
+  return size === null ? "-" : `${priceFormatter.format(size)} Cr`;
 };
 
-export const decodeHTML = (html: string) => {
-  const tempElement = document.createElement("div");
-  tempElement.innerHTML = html;
-  return tempElement.textContent || tempElement.innerText || "";
+// Named entities the fallback decodes; numeric ones are decoded generically
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
 };
 
 /**
- * Attempts to parse a given date string into a Date object.
- *
- * Recognized formats:
- *  - "DD-MMM" (e.g., "23-Dec")
- *  - "DD-MMM HH:mm" (e.g., "18-Dec 16:01")
- *
- * If the given string does not match any of these formats, null will be returned.
- * @param {string | null} dateStr
- * @returns {Date | null}
+ * Text content of an HTML fragment: entities decoded, markup dropped.
+ * Without a DOM (the calendar feed function) it strips tags and decodes
+ * numeric entities and the common named ones.
  */
-export const parseDate = (dateStr: string | null): Date | null => {
-  if (!dateStr) return null;
-
-  // Handle "DD-MMM" format (e.g., "23-Dec")
-  if (dateStr.includes("-") && !dateStr.includes(":")) {
-    const [day, month] = dateStr.split("-");
-    const year = new Date().getFullYear();
-    return new Date(`${month} ${day}, ${year}`);
-  }
-
-  // Handle "DD-MMM HH:mm" format (e.g., "18-Dec 16:01")
-  if (dateStr.includes(":")) {
-    const [datePart] = dateStr.split(" ");
-    const [day, month] = datePart.split("-");
-    const year = new Date().getFullYear();
-    return new Date(`${month} ${day}, ${year}`);
+export const decodeHTML = (html: string) => {
+  if (typeof document === "undefined") {
+    return html
+      .replace(/<[^>]*>/g, "")
+      .replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+        if (!code.startsWith("#")) return NAMED_ENTITIES[code] ?? entity;
+        const point = /^#x/i.test(code)
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+        return point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+      });
   }
-
-  return null;
+  const tempElement = document.createElement("div");
+  tempElement.innerHTML = html;
+  return tempElement.textContent || tempElement.innerText || "";
 };
 
 /**
@@ -76,6 +75,61 @@ export const formatDate = (date: Date | null): string => {
   });
 };
 
+/**
+ * Like `formatDate`, but also shows the Asia/Kolkata time, e.g.
+ * "18 Dec 2025, 04:01 pm". Used for timestamps such as `gmp_updated`.
+ */
+export const formatDateTime = (date: Date | null): string => {
+  if (!date) return "-";
+  return date.toLocaleString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "Asia/Kolkata",
+  });
+};
+
+// Format the Asia/Kolkata time of day, e.g. "04:01 pm"
+export const formatTime = (date: Date | null): string => {
+  if (!date) return "-";
+  return date.toLocaleTimeString("en-IN", {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "Asia/Kolkata",
+  });
+};
+
+// Format an elapsed duration as "just now", "5 min ago", "2 h ago", "3 d ago"
+export const formatRelativeTime = (elapsedMs: number): string => {
+  const minutes = Math.floor(elapsedMs / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+};
+
+// Format a remaining duration as "m:ss", e.g. "4:05"
+export const formatCountdown = (remainingMs: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(remainingMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+// Format a longer remaining duration as "3d 4h", "5h 12m" or "12m"
+export const formatDuration = (remainingMs: number): string => {
+  const totalMinutes = Math.max(0, Math.floor(remainingMs / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  if (days) return `${days}d ${hours}h`;
+  if (hours) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
 // Indian Rupee formatter
 export const priceFormatter = new Intl.NumberFormat("en-IN", {
   style: "currency",
@@ -83,68 +137,137 @@ export const priceFormatter = new Intl.NumberFormat("en-IN", {
   maximumFractionDigits: 0,
 });
 
+// Most keys a multi-column sort keeps; adding another replaces the lowest
+export const MAX_SORT_KEYS = 3;
+
+const time = (date: Date | null) => date?.getTime() ?? null;
+
 /**
- * Sorts an array of GMP data items by a given key.
- *
- * Handles different types of values:
- * - Numbers: Compares the numeric values directly.
- * - GMP: Handles the special case of GMP, which can be "-" or a number.
- * - Dates: Compares the dates by their timestamp.
- * - Strings: Compares the strings lexicographically.
- *
- * @param data The array of GMP data items to sort.
- * @param sortBy The key to sort by.
- * @param sortOrder The order to sort in: "asc" or "desc".
- * @returns The sorted array of GMP data items.
+ * Where rows without a value go: "last" keeps them at the bottom in either
+ * order, "greatest" treats them as larger than any value. The latter is for
+ * dates that simply haven't been announced yet, which belong after every
+ * known date.
  */
-export const sortData = (
-  data: GmpDataItem[],
-  sortBy: SortBy,
-  sortOrder: SortOrder
-): GmpDataItem[] => {
-  return [...data].sort((a, b) => {
-    let aVal = a[sortBy as keyof GmpDataItem] || "";
-    let bVal = b[sortBy as keyof GmpDataItem] || "";
-
-    // Handle numeric values
-    if (sortBy === "price" || sortBy === "lot" || sortBy === "ipo_size") {
-      const aNum = parseFloat(aVal.toString().replace(/[^0-9.-]+/g, "")) || 0;
-      const bNum = parseFloat(bVal.toString().replace(/[^0-9.-]+/g, "")) || 0;
-      return sortOrder === "asc" ? aNum - bNum : bNum - aNum;
-    }
+type NullPlacement = "last" | "greatest";
 
-    // Handle GMP special case
-    if (sortBy === "gmp") {
-      aVal = aVal === "-" ? "0" : (aVal as string);
-      bVal = bVal === "-" ? "0" : (bVal as string);
-      const aNum = parseFloat(aVal) || 0;
-      const bNum = parseFloat(bVal) || 0;
-      return sortOrder === "asc" ? aNum - bNum : bNum - aNum;
-    }
+// How to read and compare each sort column
+const SORT_COLUMNS: Record<
+  SortBy,
+  { value: (ipo: Ipo) => number | string | null; nulls: NullPlacement }
+> = {
+  [SortBy.IPO]: { value: (ipo) => ipo.baseName, nulls: "last" },
+  [SortBy.PRICE]: { value: (ipo) => ipo.price, nulls: "last" },
+  [SortBy.GMP]: { value: (ipo) => ipo.gmp, nulls: "last" },
+  [SortBy.EST_LISTING]: {
+    value: (ipo) => ipo.estListingPrice,
+    nulls: "last",
+  },
+  [SortBy.IPO_SIZE]: { value: (ipo) => ipo.issueSize, nulls: "last" },
+  [SortBy.LOT]: { value: (ipo) => ipo.lot, nulls: "last" },
+  [SortBy.OPEN]: { value: (ipo) => time(ipo.open), nulls: "last" },
+  [SortBy.CLOSE]: { value: (ipo) => time(ipo.close), nulls: "last" },
+  [SortBy.BOA_DT]: { value: (ipo) => time(ipo.boaDate), nulls: "greatest" },
+  [SortBy.LISTING]: { value: (ipo) => time(ipo.listing), nulls: "greatest" },
+  [SortBy.GMP_UPDATED]: {
+    value: (ipo) => time(ipo.gmpUpdated),
+    nulls: "last",
+  },
+  [SortBy.GMP_PERCENT]: { value: gmpPercent, nulls: "last" },
+  [SortBy.EST_LISTING_PERCENT]: {
+    value: (ipo) => ipo.estListingPercent,
+    nulls: "last",
+  },
+  [SortBy.MIN_INVESTMENT]: { value: minInvestment, nulls: "last" },
+  [SortBy.LOT_GAIN]: { value: lotGain, nulls: "last" },
+  // Mainboard issues have none, so they sit below every SME issue
+  [SortBy.SME_APPLICATION]: { value: smeMinApplication, nulls: "last" },
+  // Lifecycle order as of the moment of sorting
+  [SortBy.PHASE]: {
+    value: (ipo) => phaseIndex(lifecyclePhase(ipo, new Date())),
+    nulls: "last",
+  },
+  [SortBy.ALLOTMENT_CHANCE]: {
+    value: (ipo) => estimateAllotment(ipo)?.probability ?? null,
+    nulls: "last",
+  },
+  [SortBy.EXPECTED_VALUE]: {
+    value: (ipo) => estimateAllotment(ipo)?.expectedValue ?? null,
+    nulls: "last",
+  },
+};
 
-    // Handle dates
-    if (
-      ["open", "close", "boa_dt", "listing", "gmp_updated"].includes(sortBy)
-    ) {
-      const aDate = parseDate(aVal);
-      const bDate = parseDate(bVal);
+const compareValues = (a: number | string, b: number | string) =>
+  typeof a === "number" && typeof b === "number"
+    ? a - b
+    : a.toString().localeCompare(b.toString());
 
-      if (!aDate && !bDate) return 0;
-      if (!aDate) return sortOrder === "asc" ? 1 : -1;
-      if (!bDate) return sortOrder === "asc" ? -1 : 1;
+const compareBy = (a: Ipo, b: Ipo, { by, order }: SortKey): number => {
+  const { value, nulls } = SORT_COLUMNS[by];
+  const aVal = value(a);
+  const bVal = value(b);
+  const direction = order === SortOrder.ASC ? 1 : -1;
 
-      return sortOrder === "asc"
-        ? aDate.getTime() - bDate.getTime()
-        : bDate.getTime() - aDate.getTime();
-    }
+  if (aVal === null && bVal === null) return 0;
+  if (aVal === null) return nulls === "last" ? 1 : direction;
+  if (bVal === null) return nulls === "last" ? -1 : -direction;
+  return compareValues(aVal, bVal) * direction;
+};
 
-    // Default string comparison
-    return sortOrder === "asc"
-      ? aVal.toString().localeCompare(bVal.toString())
-      : bVal.toString().localeCompare(aVal.toString());
+/**
+ * Sorts normalized IPOs by one or more columns, in priority order.
+ *
+ * Numbers and dates compare numerically, names lexicographically; see
+ * `SORT_COLUMNS` for where each column puts missing values. Rows that tie
+ * on every key fall back to name and id, so the order never depends on
+ * the order of the payload.
+ *
+ * @param data The IPOs to sort.
+ * @param sort The sort keys, highest priority first.
+ * @returns A new, sorted array.
+ */
+export const sortData = (data: Ipo[], sort: SortKey[]): Ipo[] => {
+  return [...data].sort((a, b) => {
+    for (const key of sort) {
+      const diff = compareBy(a, b, key);
+      if (diff !== 0) return diff;
+    }
+    return compareValues(a.baseName, b.baseName) || compareValues(a.id, b.id);
   });
 };
 
+/**
+ * The sort after clicking a column header. A plain click sorts by that
+ * column alone (flipping its order if it already was the primary key);
+ * an additive (shift) click flips the column in place, or appends it as
+ * the lowest-priority key.
+ */
+export const toggleSortKey = (
+  sort: SortKey[],
+  by: SortBy,
+  additive: boolean
+): SortKey[] => {
+  const flip = (order: SortOrder) =>
+    order === SortOrder.ASC ? SortOrder.DESC : SortOrder.ASC;
+  const existing = sort.find((key) => key.by === by);
+
+  if (!additive) {
+    return [
+      {
+        by,
+        order:
+          existing && sort[0] === existing
+            ? flip(existing.order)
+            : SortOrder.ASC,
+      },
+    ];
+  }
+  if (existing) {
+    return sort.map((key) =>
+      key === existing ? { by, order: flip(key.order) } : key
+    );
+  }
+  return [...sort.slice(0, MAX_SORT_KEYS - 1), { by, order: SortOrder.ASC }];
+};
 
 export const getSubscriptionColor = (subCount: string) => {
   if (!subCount) return "text-gray-700 dark:text-gray-400";
@@ -153,4 +276,4 @@ export const getSubscriptionColor = (subCount: string) => {
   if (count >= 50) return "text-blue-500 dark:text-blue-400";
   if (count >= 1) return "text-green-700 dark:text-green-400";
   return "text-pink-500 dark:text-gray-400";
-};
\ No newline at end of file
+};
@@ -0,0 +1,23 @@
+import { readStorage, writeStorage } from "./storage";
+
+const WATCHLIST_KEY = "watchlist";
+const WATCHLIST_VERSION = 1;
+
+/**
+ * Starred IPOs, by `Ipo.id`. Ids are slugs of the parsed base name, so a
+ * star survives the status and subscription suffixes changing in the raw
+ * name from one refresh to the next.
+ */
+export const readWatchlist = (): Set<string> =>
+  new Set(readStorage<string[]>(WATCHLIST_KEY, WATCHLIST_VERSION) ?? []);
+
+export const writeWatchlist = (watchlist: Set<string>) =>
+  writeStorage(WATCHLIST_KEY, WATCHLIST_VERSION, [...watchlist]);
+
+// Returns a new set with `id` added or removed
+export const toggleWatched = (watchlist: Set<string>, id: string) => {
+  const next = new Set(watchlist);
+  if (next.has(id)) next.delete(id);
+  else next.add(id);
+  return next;
+};
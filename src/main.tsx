@@ -2,9 +2,10 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { resolveDataSource } from './lib/dataSource'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <App dataSource={resolveDataSource()} />
   </StrictMode>,
 )
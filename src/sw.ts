@@ -0,0 +1,145 @@
+/// <reference lib="webworker" />
+
+/**
+ * Service worker for the installable app.
+ *
+ * - The app shell (index.html, every built chunk and the public icons) is
+ *   precached on install, so the dashboard opens without a connection.
+ * - Requests to the GMP API use network-first with the last good response
+ *   as fallback. The fallback is marked with `X-From-SW-Cache` so the page
+ *   treats it as offline rather than fresh; other requests aren't touched.
+ * - A new build installs alongside the old one and waits; the page shows an
+ *   "update available" prompt and posts SKIP_WAITING when the user accepts.
+ * - Clicking an alert notification focuses the app on the IPO's page.
+ *
+ * `__PRECACHE_MANIFEST__`, `__BUILD_ID__` and `__API_URL__` are replaced at
+ * build time by the `serviceWorker` plugin in vite.config.ts.
+ */
+
+declare const self: ServiceWorkerGlobalScope;
+declare const __PRECACHE_MANIFEST__: string[];
+declare const __BUILD_ID__: string;
+// Null when the build uses the bundled fixture instead of an API
+declare const __API_URL__: string | null;
+
+const SHELL_CACHE = `app-shell-${__BUILD_ID__}`;
+// v1 also cached unrelated cross-origin requests, so it is dropped
+const API_CACHE = "gmp-api-v2";
+const INDEX_URL = "/index.html";
+// Read by `createHttpDataSource` in src/lib/dataSource.ts
+const SW_CACHE_HEADER = "X-From-SW-Cache";
+// `CALENDAR_FEED_PATH` in src/lib/ics.ts
+const FEED_PATH = "/calendar.ics";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) =>
+        cache.addAll([...new Set([INDEX_URL, ...__PRECACHE_MANIFEST__])])
+      )
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter(
+              (key) =>
+                (key.startsWith("app-shell-") && key !== SHELL_CACHE) ||
+                (key.startsWith("gmp-api") && key !== API_CACHE)
+            )
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") {
+    self.skipWaiting();
+  }
+});
+
+// Alert notifications shown through the worker open their IPO page
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url: string = event.notification.data?.url ?? "/";
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windows) => {
+        const client = windows[0];
+        return client
+          ? client.navigate(url).then((navigated) => navigated?.focus())
+          : self.clients.openWindow(url);
+      })
+  );
+});
+
+const networkFirst = async (request: Request): Promise<Response> => {
+  const cache = await caches.open(API_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request);
+    if (!cached) throw err;
+    const headers = new Headers(cached.headers);
+    headers.set(SW_CACHE_HEADER, "1");
+    return new Response(cached.body, {
+      status: cached.status,
+      statusText: cached.statusText,
+      headers,
+    });
+  }
+};
+
+const cacheFirst = async (request: Request): Promise<Response> => {
+  const cached = await caches.match(request);
+  return cached ?? fetch(request);
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  // The subscribable calendar is generated by the server, never the shell
+  if (url.origin === self.location.origin && url.pathname === FEED_PATH) {
+    return;
+  }
+
+  // Client-side routes all render the same shell
+  if (request.mode === "navigate") {
+    event.respondWith(
+      caches.match(INDEX_URL).then((cached) => cached ?? fetch(request))
+    );
+    return;
+  }
+
+  if (
+    url.origin === self.location.origin &&
+    __PRECACHE_MANIFEST__.includes(url.pathname)
+  ) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  // The configured GMP API (the public worker, a mirror or a mock server);
+  // everything else goes to the network as usual
+  if (
+    __API_URL__ &&
+    url.href === new URL(__API_URL__, self.location.href).href
+  ) {
+    event.respondWith(networkFirst(request));
+  }
+});
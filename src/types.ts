@@ -1,5 +1,3 @@
-import { SetStateAction } from "react";
-
 export interface GmpDataItem {
   ipo: string;
   price: string;
@@ -15,10 +13,236 @@ export interface GmpDataItem {
   classname: string | null;
 }
 
+// Status suffix the API appends to the name while an issue is live
+export type IpoStatus = "Open" | "Close";
+export type IpoSegment = "SME" | "Mainboard";
+export type IpoExchange = "BSE" | "NSE";
+
+// The structured parts of the API's `ipo` string, see `lib/ipoName.ts`
+export interface ParsedIpoName {
+  // Company name without any suffix markers
+  baseName: string;
+  status: IpoStatus | null;
+  // Subscription multiple, e.g. 12.3 for "(Sub:12.3x)"
+  subscription: number | null;
+  segment: IpoSegment;
+  // Only known for SME issues, whose platform is part of the name
+  exchange: IpoExchange | null;
+  // Any other suffix tokens, e.g. "IPO", "REIT" or a parenthesized note
+  tokens: string[];
+}
+
+/**
+ * A validated, normalized IPO row built from a `GmpDataItem` by
+ * `normalizeGmpData`. Missing values ("-", "--", empty) are explicit nulls.
+ */
+export interface Ipo extends ParsedIpoName {
+  // Stable across refreshes, see `ipoId`
+  id: string;
+  // Decoded raw name, still including status/subscription suffixes
+  name: string;
+  price: number | null;
+  gmp: number | null;
+  estListing: string | null;
+  // Parsed from `estListing`, see `parseEstListing`
+  estListingPrice: number | null;
+  estListingPercent: number | null;
+  // Issue size in crore
+  issueSize: number | null;
+  lot: number | null;
+  open: Date | null;
+  close: Date | null;
+  boaDate: Date | null;
+  listing: Date | null;
+  gmpUpdated: Date | null;
+  // The API's row style hint; the views tint rows by `lifecyclePhase`
+  classname: string | null;
+  raw: GmpDataItem;
+}
+
+// Private notes and tags the user attached to an IPO, keyed by `Ipo.id`
+export interface IpoAnnotation {
+  note: string;
+  tags: string[];
+  updatedAt: number;
+}
+
+export type Annotations = Record<string, IpoAnnotation>;
+
+// One recorded observation of an IPO, see `lib/history.ts`
+export interface GmpHistoryPoint {
+  // When the snapshot was fetched
+  at: number;
+  gmp: number | null;
+  estListing: string | null;
+  subscription: number | null;
+  gmpUpdated: number | null;
+}
+
+// History points per IPO id, oldest first
+export type GmpHistory = Record<string, GmpHistoryPoint[]>;
+
+export interface GmpTrend {
+  points: GmpHistoryPoint[];
+  sinceYesterday: number | null;
+  sinceOpen: number | null;
+}
+
+export type LifecycleDateField = "open" | "close" | "boaDate" | "listing";
+
+// A single difference between two consecutive snapshots, see `lib/diff.ts`
+export type ChangeEvent =
+  | { type: "listed"; id: string; name: string }
+  | { type: "removed"; id: string; name: string }
+  | {
+      type: "gmp";
+      id: string;
+      name: string;
+      from: number | null;
+      to: number | null;
+      // to - from, null when either side is missing
+      delta: number | null;
+    }
+  | {
+      type: "status";
+      id: string;
+      name: string;
+      from: IpoStatus | null;
+      to: IpoStatus | null;
+    }
+  | {
+      type: "subscription";
+      id: string;
+      name: string;
+      from: number | null;
+      to: number;
+    }
+  | {
+      type: "dates";
+      id: string;
+      name: string;
+      changes: {
+        field: LifecycleDateField;
+        from: Date | null;
+        to: Date | null;
+      }[];
+    };
+
+// All changes found by one refresh
+export interface ChangeLogEntry {
+  at: number;
+  events: ChangeEvent[];
+}
+
+// A user-defined alert, checked after every refresh by `lib/alerts.ts`
+export type AlertRule = { id: string; enabled: boolean } & (
+  | {
+      kind: "gmp-crosses";
+      // Null watches every IPO
+      ipoId: string | null;
+      direction: "above" | "below";
+      threshold: number;
+    }
+  | { kind: "opens-with-gmp-percent"; threshold: number }
+  | { kind: "closes-today"; watchlistOnly: boolean }
+  | { kind: "listing-tomorrow"; watchlistOnly: boolean }
+);
+
+export type AlertRuleKind = AlertRule["kind"];
+
+// One delivered alert, kept for the history drawer and de-duplication
+export interface AlertNotification {
+  // Same key, same alert: never delivered twice
+  key: string;
+  ruleId: string;
+  ipoId: string;
+  title: string;
+  body: string;
+  at: number;
+  read: boolean;
+}
+
+export interface NormalizationIssue {
+  // Position of the row in the payload
+  index: number;
+  ipo: string | null;
+  field: keyof GmpDataItem | null;
+  value: unknown;
+  message: string;
+}
+
+export interface NormalizationResult {
+  ipos: Ipo[];
+  issues: NormalizationIssue[];
+}
+
+export interface GmpApiResponse {
+  data: GmpDataItem[];
+}
+
+// Last good payload, persisted by `lib/cache.ts`
+export interface CachedSnapshot {
+  data: GmpDataItem[];
+  fetchedAt: number;
+  source: string;
+  // Sent back on the next request so the server can answer 304
+  validators?: CacheValidators | null;
+}
+
+// What the UI shows about the data currently on screen
+export interface DataStatus {
+  fetchedAt: number | null;
+  source: string;
+  // Rendered from the persistent cache and not yet revalidated
+  fromCache: boolean;
+  // The last network attempt failed; the data shown is the last good copy
+  offline: boolean;
+  // Malformed rows and fields in the payload on screen, see `normalizeGmpData`
+  issues: NormalizationIssue[];
+}
+
+// HTTP validators for conditional requests (If-None-Match/If-Modified-Since)
+export interface CacheValidators {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+export interface DataSourceRequest {
+  signal?: AbortSignal;
+  validators?: CacheValidators | null;
+}
+
+export type DataSourceResponse =
+  | {
+      status: "ok";
+      data: GmpDataItem[];
+      validators: CacheValidators | null;
+    }
+  // The data hasn't changed since the request's validators were issued
+  | { status: "not-modified" };
+
+/**
+ * Where the dashboard gets its GMP rows from. App receives one of these by
+ * injection, see `resolveDataSource` in `lib/dataSource.ts`.
+ */
+export interface DataSource {
+  // Short label shown in the UI, e.g. "Live API" or "Fixture"
+  name: string;
+  // Implementations throw a `DataSourceError` (see `lib/errors.ts`) on failure
+  fetchData: (options?: DataSourceRequest) => Promise<DataSourceResponse>;
+}
+
 export interface StatsData {
-  activeIPOs: number;
-  upcomingIPOs: number;
+  // IPOs in each lifecycle phase
+  phases: Record<LifecyclePhase, number>;
   avgGMP: number;
+  watchlist: {
+    // Starred IPOs present in the current data
+    count: number;
+    open: number;
+    // Null when none of them has a GMP
+    avgGMP: number | null;
+  };
 }
 
 export enum SortBy {
@@ -33,6 +257,15 @@ export enum SortBy {
   BOA_DT = "boa_dt",
   LISTING = "listing",
   GMP_UPDATED = "gmp_updated",
+  // Derived metrics, see `lib/metrics.ts`
+  GMP_PERCENT = "gmp_percent",
+  EST_LISTING_PERCENT = "est_listing_percent",
+  MIN_INVESTMENT = "min_investment",
+  LOT_GAIN = "lot_gain",
+  SME_APPLICATION = "sme_application",
+  PHASE = "phase",
+  ALLOTMENT_CHANCE = "allotment_chance",
+  EXPECTED_VALUE = "expected_value",
 }
 
 export enum SortOrder {
@@ -40,14 +273,242 @@ export enum SortOrder {
   DESC = "desc",
 }
 
+// One column of a (possibly multi-column) sort
+export interface SortKey {
+  by: SortBy;
+  order: SortOrder;
+}
+
+// Retail allotment odds for one minimum bid, see `lib/allotment.ts`
+export interface AllotmentEstimate {
+  // 0–1
+  probability: number;
+  // Probability × GMP on one minimum bid, in rupees
+  expectedValue: number | null;
+  // Minimum bids the retail book can allot, when the issue size is known
+  retailBids: number | null;
+}
+
+// Bid category the capital planner applies in, see `lib/planner.ts`
+export type PlannerStrategy = "retail-min" | "retail-max" | "small-hni";
+
+export interface PlannerInputs {
+  // Rupees available across all accounts
+  capital: number;
+  // PAN/applicant accounts that can each bid once per IPO
+  accounts: number;
+  strategy: PlannerStrategy;
+}
+
+// One proposed bid
+export interface PlanEntry {
+  ipo: Ipo;
+  lotsPerAccount: number;
+  // Accounts bidding, at most `PlannerInputs.accounts`
+  applicants: number;
+  // Rupees blocked across all applicants
+  blocked: number;
+  // Blocking window; `until` is null when no unblock date can be estimated
+  from: Date;
+  until: Date | null;
+  // GMP × shares bid, i.e. the gain if every bid were allotted in full
+  gainIfAllotted: number;
+  // Allotment odds × GMP on what a winner gets, across all applicants; null
+  // until the feed reports a subscription
+  expectedGain: number | null;
+}
+
+export interface PlannerResult {
+  // Ordered by the start of the blocking window
+  entries: PlanEntry[];
+  skipped: { ipo: Ipo; reason: string }[];
+  // Most capital blocked at any one time
+  peakBlocked: number;
+  // Sum over the entries that have an `expectedGain`
+  expectedGain: number;
+}
+
+// Client-side routes, see `lib/router.ts`
+export type Route =
+  { name: "dashboard" } | { name: "ipo"; id: string } | { name: "planner" };
+
+export enum ViewMode {
+  // Desktop table
+  TABLE = "table",
+  // Mobile accordion cards
+  CARDS = "cards",
+  // Month/week calendar of lifecycle dates, an agenda list on mobile
+  CALENDAR = "calendar",
+  // Gantt chart of every IPO from open to listing
+  TIMELINE = "timeline",
+}
+
+export type CalendarEventKind = "open" | "close" | "allotment" | "listing";
+
+// A lifecycle date of one IPO, placed on its Asia/Kolkata day
+export interface CalendarEvent {
+  ipo: Ipo;
+  kind: CalendarEventKind;
+  date: Date;
+  // YYYY-MM-DD
+  day: string;
+}
+
+/**
+ * Everything that decides what the dashboard shows, mirrored in the URL
+ * query string by `lib/urlState.ts` so views can be shared and navigated.
+ */
+export interface ViewState {
+  search: string;
+  // Highest priority first
+  sort: SortKey[];
+  filters: IpoFilters;
+  // Only show starred IPOs
+  watchlistOnly: boolean;
+  // Id of the selected (expanded) IPO
+  selected: string | null;
+  // null follows the screen width
+  view: ViewMode | null;
+}
+
+export interface UpdateViewStateOptions {
+  // Rewrite the current history entry instead of adding one
+  replace?: boolean;
+}
+
+// Where an IPO is in its lifecycle, see `lib/phase.ts`
+export type LifecyclePhase =
+  | "upcoming"
+  | "open"
+  | "closing-today"
+  | "closed"
+  | "allotment-out"
+  | "listing-today"
+  | "listed";
+
+export interface NumberRange {
+  min: number | null;
+  max: number | null;
+}
+
+// Filters from the filter panel; null/empty values don't filter
+export interface IpoFilters {
+  segment: IpoSegment | null;
+  phases: LifecyclePhase[];
+  // GMP in rupees
+  gmp: NumberRange;
+  // GMP as a percentage of the issue price
+  gmpPercent: NumberRange;
+  price: NumberRange;
+  // Issue size in crore
+  issueSize: NumberRange;
+  hasSubscription: boolean;
+  // User tags (see `IpoAnnotation`); matches IPOs carrying any of them
+  tags: string[];
+}
+
+export type QueryField =
+  | "price"
+  | "gmp"
+  | "gmpPercent"
+  | "lot"
+  | "size"
+  | "open"
+  | "close"
+  | "allotment"
+  | "listing"
+  | "updated";
+
+export type ComparisonOp = "=" | ">" | ">=" | "<" | "<=";
+
+// One term of a search query, see `lib/query.ts`
+export type QueryClause = { negate: boolean } & (
+  | { kind: "text"; value: string; phrase: boolean }
+  | { kind: "compare"; field: QueryField; op: ComparisonOp; value: number }
+  | { kind: "status"; value: LifecyclePhase }
+  | { kind: "segment"; value: IpoSegment }
+);
+
+export interface QueryError {
+  message: string;
+  // Character range of the offending term in the input
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  clauses: QueryClause[];
+  errors: QueryError[];
+}
+
+export interface QuerySuggestion {
+  // Shown in the dropdown
+  label: string;
+  description: string;
+  // Full input after accepting the suggestion
+  value: string;
+}
+
+export interface RefreshSchedule {
+  // When the next automatic refresh fires; null while paused or refreshing
+  nextRefreshAt: number | null;
+  // User-chosen base interval, shortened during market hours, see
+  // `lib/scheduler.ts`
+  intervalMs: number;
+  setIntervalMs: (intervalMs: number) => void;
+}
+
 export interface SearchAndControlsProps {
   searchTerm: string;
-  setSearchTerm: (value: SetStateAction<string>) => void;
-  sortBy: string;
-  setSortBy: (value: SetStateAction<SortBy>) => void;
-  sortOrder: SortOrder.ASC | SortOrder.DESC;
-  setSortOrder: (value: SetStateAction<SortOrder>) => void;
+  setSearchTerm: (value: string) => void;
+  sort: SortKey[];
+  setSort: (sort: SortKey[]) => void;
   isMobile?: boolean;
   fetchData: VoidFunction;
   refreshing: boolean;
+  dataStatus: DataStatus;
+  schedule: RefreshSchedule;
+  filters: IpoFilters;
+  // Range edits replace the history entry, so typing doesn't add Back steps
+  setFilters: (filters: IpoFilters, options?: UpdateViewStateOptions) => void;
+  view: ViewMode;
+  setView: (view: ViewMode) => void;
+  watchlistOnly: boolean;
+  setWatchlistOnly: (watchlistOnly: boolean) => void;
+  // Starred IPOs in the current data
+  watchlistCount: number;
+  // Every tag in use, for the tag filter
+  knownTags: string[];
+  // Downloads the visible rows as CSV
+  onExport: VoidFunction;
+  // Downloads the visible rows' lifecycle dates as an .ics calendar
+  onExportCalendar: VoidFunction;
+  // Subscribable feed of every IPO, or the watched ones in watchlist mode
+  calendarFeedUrl: string;
+  onOpenAlerts: VoidFunction;
+  // Alerts in the history the user hasn't seen yet
+  unreadAlerts: number;
+}
+
+// What App passes to every dashboard view: the controls plus the data
+export interface DashboardViewProps extends SearchAndControlsProps {
+  filteredAndSortedData: Ipo[];
+  statsData: StatsData;
+  changeLog: ChangeLogEntry[];
+}
+
+// The table and card views also show per-IPO state and row actions
+export interface IpoListViewProps extends DashboardViewProps {
+  trends: Record<string, GmpTrend>;
+  // Rows that changed in the last refresh
+  highlightedIds: Set<string>;
+  selected: string | null;
+  setSelected: (id: string | null) => void;
+  watchlist: Set<string>;
+  toggleWatchlist: (id: string) => void;
+  annotations: Annotations;
+  annotate: (
+    id: string,
+    annotation: Pick<IpoAnnotation, "note" | "tags">
+  ) => void;
 }
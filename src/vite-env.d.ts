@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // "http" (default) or "fixture"
+  readonly VITE_DATA_SOURCE?: string;
+  // Overrides the GMP worker URL, e.g. a team mirror or a local mock server
+  readonly VITE_GMP_API_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,13 +1,78 @@
+import { createHash } from "crypto";
+import fs from "fs";
 import path from "path";
 import react from "@vitejs/plugin-react";
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
+import { resolveApiUrl } from "./src/lib/apiUrl";
+
+// Read by the host at deploy time, never served, so they can't be precached
+const HOST_CONFIG_FILES = ["_redirects", "_headers"];
+
+/**
+ * Builds `src/sw.ts` to `/sw.js` and fills in its precache manifest: every
+ * emitted chunk and asset plus the files in `public/`. The build id changes
+ * whenever the manifest does, which is what makes browsers pick up a new
+ * service worker after a deploy. The API URL is the one the app's data
+ * source uses, so the worker only caches that endpoint.
+ */
+const serviceWorker = (): Plugin => {
+  let publicDir = "";
+  let apiUrl: string | null = null;
+  return {
+    name: "service-worker",
+    apply: "build",
+    configResolved(config) {
+      publicDir = config.publicDir;
+      apiUrl = resolveApiUrl(config.env);
+    },
+    generateBundle(_, bundle) {
+      const publicFiles = fs.existsSync(publicDir)
+        ? fs
+            .readdirSync(publicDir)
+            .filter(
+              (file) => file !== "sw.js" && !HOST_CONFIG_FILES.includes(file)
+            )
+        : [];
+      const urls = [
+        ...Object.keys(bundle).filter((file) => file !== "sw.js"),
+        ...publicFiles,
+      ]
+        .map((file) => `/${file}`)
+        .sort();
+      const buildId = createHash("sha256")
+        .update(urls.join("\n"))
+        .digest("hex")
+        .slice(0, 16);
+
+      const sw = bundle["sw.js"];
+      if (sw?.type === "chunk") {
+        sw.code = sw.code
+          .replace(/__PRECACHE_MANIFEST__/g, JSON.stringify(urls))
+          .replace(/__BUILD_ID__/g, JSON.stringify(buildId))
+          .replace(/__API_URL__/g, JSON.stringify(apiUrl));
+      }
+    },
+  };
+};
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  build: {
+    rollupOptions: {
+      input: {
+        main: path.resolve(__dirname, "index.html"),
+        sw: path.resolve(__dirname, "src/sw.ts"),
+      },
+      output: {
+        entryFileNames: (chunk) =>
+          chunk.name === "sw" ? "sw.js" : "assets/[name]-[hash].js",
+      },
+    },
+  },
 });